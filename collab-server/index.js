@@ -0,0 +1,154 @@
+// A small relay for collaborating on a board. Run with `npm run collab-server`
+// and start a session from the board's Collaborate button.
+//
+// Clients connect to ws://localhost:8901/<room> and speak the y-websocket
+// protocol: Yjs sync messages keep every client's copy of the board in step,
+// and awareness messages carry presence (names and cursors). The relay keeps
+// each room's document in memory while anyone is connected, so a late joiner
+// gets the board even if whoever started the session has left. Nothing is
+// written to disk; every participant keeps their own copy in their notebook.
+// COLLAB_SERVER_PORT changes the port.
+
+import http from 'node:http';
+import { WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+const PORT = Number(process.env.COLLAB_SERVER_PORT || 8901);
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+/** Open rooms by name: the shared document, presence and the sockets in it. */
+const rooms = new Map();
+
+const send = (socket, message) => {
+    if (socket.readyState === socket.OPEN) {
+        socket.send(message);
+    }
+};
+
+const broadcast = (room, message) => {
+    room.sockets.forEach((_clientIds, socket) => send(socket, message));
+};
+
+const getRoom = (name) => {
+    let room = rooms.get(name);
+    if (room) return room;
+    const doc = new Y.Doc();
+    const awareness = new awarenessProtocol.Awareness(doc);
+    awareness.setLocalState(null);
+    // Each socket maps to the awareness client ids it has announced, so they can be cleared when it leaves.
+    room = { name, doc, awareness, sockets: new Map() };
+    doc.on('update', (update) => {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.writeUpdate(encoder, update);
+        broadcast(room, encoding.toUint8Array(encoder));
+    });
+    awareness.on('update', ({ added, updated, removed }, origin) => {
+        const changed = [...added, ...updated, ...removed];
+        const clientIds = room.sockets.get(origin);
+        if (clientIds) {
+            // A client may announce itself again after removing its state, so updates count too.
+            [...added, ...updated].forEach((id) => clientIds.add(id));
+            removed.forEach((id) => clientIds.delete(id));
+        }
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changed));
+        broadcast(room, encoding.toUint8Array(encoder));
+    });
+    rooms.set(name, room);
+    return room;
+};
+
+const handleMessage = (room, socket, data) => {
+    const decoder = decoding.createDecoder(new Uint8Array(data));
+    const encoder = encoding.createEncoder();
+    switch (decoding.readVarUint(decoder)) {
+        case MESSAGE_SYNC:
+            encoding.writeVarUint(encoder, MESSAGE_SYNC);
+            syncProtocol.readSyncMessage(decoder, encoder, room.doc, socket);
+            // Only a sync step 1 needs an answer; the encoder then holds more than the message type.
+            if (encoding.length(encoder) > 1) {
+                send(socket, encoding.toUint8Array(encoder));
+            }
+            break;
+        case MESSAGE_AWARENESS:
+            awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), socket);
+            break;
+        default:
+            break;
+    }
+};
+
+const leave = (room, socket) => {
+    const clientIds = room.sockets.get(socket);
+    if (!clientIds) return;
+    room.sockets.delete(socket);
+    awarenessProtocol.removeAwarenessStates(room.awareness, [...clientIds], null);
+    if (room.sockets.size === 0) {
+        room.awareness.destroy();
+        room.doc.destroy();
+        rooms.delete(room.name);
+        console.log(`Room "${room.name}" closed`);
+    }
+};
+
+const server = http.createServer((_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ message: 'MathScribe collaboration relay is running', rooms: rooms.size }));
+});
+
+const wss = new WebSocketServer({ server });
+
+wss.on('connection', (socket, req) => {
+    const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+    const name = decodeURIComponent(url.pathname.slice(1));
+    if (!name) {
+        socket.close(1008, 'Missing room name');
+        return;
+    }
+    const room = getRoom(name);
+    room.sockets.set(socket, new Set());
+    socket.binaryType = 'arraybuffer';
+    socket.on('message', (data) => {
+        try {
+            handleMessage(room, socket, data);
+        } catch (error) {
+            console.error(`Bad message in room "${name}":`, error);
+        }
+    });
+    socket.on('close', () => leave(room, socket));
+    // A bad frame from one client must not take the relay down for every room.
+    socket.on('error', (error) => {
+        console.error(`Connection error in room "${name}":`, error);
+        leave(room, socket);
+        socket.terminate();
+    });
+
+    // Start the sync and tell the newcomer who is already here.
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, room.doc);
+    send(socket, encoding.toUint8Array(encoder));
+    const states = room.awareness.getStates();
+    if (states.size > 0) {
+        const awarenessEncoder = encoding.createEncoder();
+        encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(
+            awarenessEncoder,
+            awarenessProtocol.encodeAwarenessUpdate(room.awareness, [...states.keys()]),
+        );
+        send(socket, encoding.toUint8Array(awarenessEncoder));
+    }
+    console.log(`Client joined room "${name}" (${room.sockets.size} connected)`);
+});
+
+server.listen(PORT, () => {
+    console.log(`MathScribe collaboration relay listening on ws://localhost:${PORT}`);
+});
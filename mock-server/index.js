@@ -0,0 +1,127 @@
+// A stand-in for the MathScribe backend, so the app can be developed and demoed
+// without network access. Run with `npm run mock-server` and pick "Mock server"
+// as the solver in the app.
+//
+// POST /magic accepts the same body as the real backend and answers with canned
+// or rule-based results. Query parameters make error paths easy to exercise:
+//   ?scenario=<name>  force one of the scenarios below
+//   ?delay=<ms>       wait before answering (try it with the Cancel button)
+//   ?fail=<status>    answer with that HTTP status instead
+// The app sends them from VITE_MOCK_SOLVER_QUERY (e.g. "scenario=wrong&delay=3000").
+// MOCK_SOLVER_SCENARIO and MOCK_SOLVER_DELAY set the same defaults for every request.
+
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_SOLVER_PORT || 8900);
+const DEFAULT_SCENARIO = process.env.MOCK_SOLVER_SCENARIO;
+const DEFAULT_DELAY = process.env.MOCK_SOLVER_DELAY || 0;
+
+const isNumeric = (value) => typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value));
+
+const SCENARIOS = {
+    arithmetic: () => [{ expr: '2 + 3 * 4', result: '14' }],
+    assignment: () => [
+        { expr: 'x', result: '5', assign: true },
+        { expr: 'y', result: '7', assign: true },
+    ],
+    pythagoras: () => [{ expr: 'sqrt(3^2 + 4^2)', result: '5' }],
+    // Adds up every numeric variable the client sent, like a follow-up question would.
+    'uses-vars': (vars) => {
+        const names = Object.keys(vars).filter((name) => isNumeric(vars[name]));
+        if (names.length === 0) return [{ expr: '1 + 1', result: '2' }];
+        const total = names.reduce((sum, name) => sum + Number(vars[name]), 0);
+        return [{ expr: names.join(' + '), result: String(total) }];
+    },
+    wrong: () => [{ expr: '7 * 8', result: '54' }],
+    steps: () => [{
+        expr: '2x + 3 = 11',
+        result: '4',
+        steps: [
+            { latex: '2x + 3 = 11', explanation: 'The equation as written' },
+            { latex: '2x = 8', explanation: 'Subtract 3 from both sides' },
+            { latex: 'x = 4', explanation: 'Divide both sides by 2' },
+        ],
+    }],
+    invalid: () => 'not a list of results',
+};
+
+const ROTATION = ['arithmetic', 'assignment', 'pythagoras', 'uses-vars'];
+let requestCount = 0;
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readJson = (req) =>
+    new Promise((resolve, reject) => {
+        let raw = '';
+        req.on('data', (chunk) => {
+            raw += chunk;
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(raw || '{}'));
+            } catch (error) {
+                reject(error);
+            }
+        });
+        req.on('error', reject);
+    });
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+    if (req.method === 'OPTIONS') {
+        send(res, 204);
+        return;
+    }
+    if (req.method === 'GET' && url.pathname === '/') {
+        send(res, 200, { message: 'MathScribe mock solver is running', scenarios: Object.keys(SCENARIOS) });
+        return;
+    }
+    if (req.method !== 'POST' || url.pathname !== '/magic') {
+        send(res, 404, { message: 'Not found' });
+        return;
+    }
+
+    let body;
+    try {
+        body = await readJson(req);
+    } catch {
+        send(res, 400, { message: 'Body is not valid JSON' });
+        return;
+    }
+    if (typeof body.image !== 'string' || !body.image.startsWith('data:image/')) {
+        send(res, 422, { message: '"image" must be a data URL' });
+        return;
+    }
+
+    const delay = Number(url.searchParams.get('delay') || DEFAULT_DELAY);
+    if (delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+    const fail = Number(url.searchParams.get('fail') || 0);
+    if (fail >= 400) {
+        send(res, fail, { message: `Mock failure ${fail}` });
+        return;
+    }
+
+    const name = url.searchParams.get('scenario') || DEFAULT_SCENARIO || ROTATION[requestCount++ % ROTATION.length];
+    const scenario = SCENARIOS[name];
+    if (!scenario) {
+        send(res, 400, { message: `Unknown scenario "${name}"` });
+        return;
+    }
+    const vars = body.dict_of_vars && typeof body.dict_of_vars === 'object' ? body.dict_of_vars : {};
+    console.log(`POST /magic -> ${name}`);
+    send(res, 200, { message: 'Image processed', status: 'success', data: scenario(vars) });
+});
+
+server.listen(PORT, () => {
+    console.log(`MathScribe mock solver listening on http://localhost:${PORT}`);
+});
@@ -2,13 +2,21 @@ import {createBrowserRouter, RouterProvider} from 'react-router-dom';
 import '@mantine/core/styles.css';
 import { MantineProvider } from '@mantine/core';
 
+import { applyHighContrast, loadHighContrast } from '@/lib/theme';
 import Home from '@/screens/home';
+import Notebook from '@/screens/notebook';
 
 import '@/index.css';
 
 const paths = [
     {
         path: '/',
+        element: (
+          <Notebook/>
+        ),
+    },
+    {
+        path: '/board/:id',
         element: (
           <Home/>
         ),
@@ -17,6 +25,8 @@ const paths = [
 
 const BrowserRouter = createBrowserRouter(paths);
 
+applyHighContrast(loadHighContrast());
+
 const App = () => {
     return (
     <MantineProvider>
@@ -0,0 +1,117 @@
+import { solve, SolverError, type GeneratedResult, type SolveResponse } from '@/lib/api/solver';
+import { EvaluationError, evaluateExpression, formatNumber, numericVariables } from '@/lib/math/evaluate';
+
+/**
+ * Everything a provider may use to solve a board. Image-based backends read
+ * `image`; the in-browser provider only understands the typed `texts`.
+ */
+export interface SolverInput {
+    image: string;
+    variables: { [key: string]: string };
+    texts: string[];
+}
+
+export interface SolverRunOptions {
+    signal?: AbortSignal;
+}
+
+export type SolverProviderId = 'http' | 'mock' | 'browser';
+
+export interface SolverProvider {
+    id: SolverProviderId;
+    label: string;
+    description: string;
+    solve: (input: SolverInput, options?: SolverRunOptions) => Promise<SolveResponse>;
+}
+
+const createHttpProvider = (
+    id: SolverProviderId,
+    label: string,
+    description: string,
+    baseUrl: string,
+    params?: URLSearchParams,
+): SolverProvider => ({
+    id,
+    label,
+    description,
+    solve: (input, options = {}) =>
+        solve({ image: input.image, dict_of_vars: input.variables }, { baseUrl, params, signal: options.signal }),
+});
+
+const ASSIGNMENT = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.+)$/;
+
+/**
+ * Solves one typed line: `x = 2 + 3` assigns, `2 + 3` or `2 + 3 =` evaluates.
+ */
+const solveLine = (line: string, variables: Record<string, number>): GeneratedResult | null => {
+    const trimmed = line.trim().replace(/=\s*\??\s*$/, '').trim();
+    if (!trimmed) return null;
+    const assignment = ASSIGNMENT.exec(trimmed);
+    if (assignment) {
+        const [, name, expression] = assignment;
+        const value = evaluateExpression(expression, variables);
+        variables[name] = value;
+        return { expr: name, result: formatNumber(value), assign: true };
+    }
+    return { expr: trimmed, result: formatNumber(evaluateExpression(trimmed, variables)) };
+};
+
+export const browserProvider: SolverProvider = {
+    id: 'browser',
+    label: 'In-browser',
+    description: 'Evaluates typed text items locally. Handwriting is ignored.',
+    solve: async (input, options = {}) => {
+        if (options.signal?.aborted) {
+            throw new SolverError('cancelled', 'The request was cancelled');
+        }
+        const variables = numericVariables(input.variables);
+        const data: GeneratedResult[] = [];
+        input.texts
+            .flatMap((text) => text.split('\n'))
+            .forEach((line) => {
+                try {
+                    const result = solveLine(line, variables);
+                    if (result) data.push(result);
+                } catch (error) {
+                    if (!(error instanceof EvaluationError)) throw error;
+                }
+            });
+        if (data.length === 0) {
+            throw new SolverError(
+                'invalid_response',
+                'No typed expression could be evaluated. Add a text item such as "3 * (4 + 5)".',
+            );
+        }
+        return { message: 'Evaluated in the browser', status: 'success', data };
+    },
+};
+
+export const SOLVER_PROVIDERS: SolverProvider[] = [
+    createHttpProvider('http', 'Server', 'The hosted MathScribe solver.', import.meta.env.VITE_API_URL),
+    createHttpProvider(
+        'mock',
+        'Mock server',
+        'The bundled mock server (npm run mock-server), for offline development.',
+        import.meta.env.VITE_MOCK_API_URL || 'http://localhost:8900',
+        // e.g. `scenario=wrong&delay=3000`, for the mock server's query options.
+        new URLSearchParams(import.meta.env.VITE_MOCK_SOLVER_QUERY ?? ''),
+    ),
+    browserProvider,
+];
+
+const PROVIDER_STORAGE_KEY = 'mathscribe.solverProvider';
+
+export const getProvider = (id: SolverProviderId): SolverProvider =>
+    SOLVER_PROVIDERS.find((provider) => provider.id === id) ?? SOLVER_PROVIDERS[0];
+
+/**
+ * Returns the provider picked last time, defaulting to the hosted server.
+ */
+export const loadProviderId = (): SolverProviderId => {
+    const stored = window.localStorage.getItem(PROVIDER_STORAGE_KEY);
+    return SOLVER_PROVIDERS.some((provider) => provider.id === stored) ? (stored as SolverProviderId) : 'http';
+};
+
+export const saveProviderId = (id: SolverProviderId) => {
+    window.localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
@@ -0,0 +1,215 @@
+import axios from 'axios';
+
+/**
+ * Where an expression was found, in pixels of the image that was sent.
+ */
+export interface ResultBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * One step of the working that leads to a result.
+ */
+export interface SolutionStep {
+    /** TeX source of the step's formula, without math delimiters. */
+    latex: string;
+    /** What was done in this step; may be empty. */
+    explanation: string;
+}
+
+export interface GeneratedResult {
+    expr: string;
+    result: string;
+    assign?: boolean;
+    /** Supplied by backends that locate each expression in the image. */
+    bbox?: ResultBox;
+    /** The working, in order; supplied by backends that show their steps. */
+    steps?: SolutionStep[];
+}
+
+/**
+ * Body of `POST /magic`.
+ */
+export interface SolveRequest {
+    image: string;
+    dict_of_vars: { [key: string]: string };
+}
+
+/**
+ * Response of `POST /magic`.
+ */
+export interface SolveResponse {
+    message?: string;
+    status?: string;
+    data: GeneratedResult[];
+    /** The body as the backend sent it, kept for the run history. */
+    raw?: unknown;
+}
+
+export type SolverErrorKind = 'network' | 'timeout' | 'http' | 'invalid_response' | 'cancelled';
+
+export class SolverError extends Error {
+    readonly kind: SolverErrorKind;
+    readonly status?: number;
+
+    constructor(kind: SolverErrorKind, message: string, status?: number) {
+        super(message);
+        this.name = 'SolverError';
+        this.kind = kind;
+        this.status = status;
+    }
+
+    /**
+     * Whether trying the same request again might succeed.
+     */
+    get retryable(): boolean {
+        if (this.kind === 'network' || this.kind === 'timeout') return true;
+        return this.kind === 'http' && this.status !== undefined && (this.status >= 500 || this.status === 429);
+    }
+}
+
+export interface SolveOptions {
+    baseUrl?: string;
+    /** Query parameters added to the request, such as the mock server's `scenario`. */
+    params?: URLSearchParams;
+    signal?: AbortSignal;
+    /** Per-attempt timeout. */
+    timeoutMs?: number;
+    /** Attempts after the first one, for retryable failures only. */
+    retries?: number;
+    /** Delay before the first retry; doubles on every further retry. */
+    retryDelayMs?: number;
+}
+
+const envNumber = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const DEFAULT_SOLVE_OPTIONS = {
+    baseUrl: import.meta.env.VITE_API_URL,
+    timeoutMs: envNumber(import.meta.env.VITE_SOLVER_TIMEOUT_MS, 60000),
+    retries: envNumber(import.meta.env.VITE_SOLVER_RETRIES, 2),
+    retryDelayMs: envNumber(import.meta.env.VITE_SOLVER_RETRY_DELAY_MS, 1000),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isResultBox = (value: unknown): value is ResultBox =>
+    isRecord(value)
+    && [value.x, value.y, value.width, value.height].every((n) => typeof n === 'number' && Number.isFinite(n))
+    && (value.width as number) >= 0 && (value.height as number) >= 0;
+
+/**
+ * The steps of a result. Steps without a formula are left out, and a missing
+ * explanation is taken as empty.
+ */
+const parseSteps = (value: unknown): SolutionStep[] =>
+    (Array.isArray(value) ? value : []).flatMap((step) => {
+        if (!isRecord(step) || typeof step.latex !== 'string') return [];
+        return [{ latex: step.latex, explanation: typeof step.explanation === 'string' ? step.explanation : '' }];
+    });
+
+const parseGeneratedResult = (value: unknown, index: number): GeneratedResult => {
+    if (!isRecord(value)) {
+        throw new SolverError('invalid_response', `Result ${index} is not an object`);
+    }
+    const { expr, result, assign } = value;
+    if (typeof expr !== 'string') {
+        throw new SolverError('invalid_response', `Result ${index} has no "expr"`);
+    }
+    if (typeof result !== 'string' && typeof result !== 'number' && typeof result !== 'boolean') {
+        throw new SolverError('invalid_response', `Result ${index} has no "result"`);
+    }
+    if (assign !== undefined && typeof assign !== 'boolean') {
+        throw new SolverError('invalid_response', `Result ${index} has an invalid "assign"`);
+    }
+    const steps = parseSteps(value.steps);
+    return {
+        expr,
+        result: String(result),
+        ...(assign !== undefined ? { assign } : {}),
+        // A malformed box only costs the placement hint, so it is dropped rather than rejected.
+        ...(isResultBox(value.bbox) ? { bbox: value.bbox } : {}),
+        // Likewise a malformed step only costs that step; the answer still stands.
+        ...(steps.length > 0 ? { steps } : {}),
+    };
+};
+
+/**
+ * Checks the shape of a `/magic` response at runtime.
+ *
+ * @throws SolverError with kind `invalid_response` when it does not match `SolveResponse`.
+ */
+export const parseSolveResponse = (value: unknown): SolveResponse => {
+    if (!isRecord(value)) {
+        throw new SolverError('invalid_response', 'The solver returned an unexpected response');
+    }
+    if (!Array.isArray(value.data)) {
+        const detail = typeof value.message === 'string' ? `: ${value.message}` : '';
+        throw new SolverError('invalid_response', `The solver response has no results${detail}`);
+    }
+    return {
+        message: typeof value.message === 'string' ? value.message : undefined,
+        status: typeof value.status === 'string' ? value.status : undefined,
+        data: value.data.map(parseGeneratedResult),
+        raw: value,
+    };
+};
+
+const toSolverError = (error: unknown, signal?: AbortSignal): SolverError => {
+    if (error instanceof SolverError) return error;
+    if (signal?.aborted || axios.isCancel(error)) {
+        return new SolverError('cancelled', 'The request was cancelled');
+    }
+    if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+            return new SolverError('timeout', 'The solver took too long to answer');
+        }
+        if (error.response) {
+            return new SolverError('http', `The solver failed with HTTP ${error.response.status}`, error.response.status);
+        }
+        return new SolverError('network', 'Could not reach the solver');
+    }
+    return new SolverError('network', error instanceof Error ? error.message : 'Unknown error');
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            window.clearTimeout(timeout);
+            reject(new SolverError('cancelled', 'The request was cancelled'));
+        };
+        const timeout = window.setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Sends a board image to the solver and returns its validated results.
+ * Retryable failures are retried with exponential backoff; aborting `signal`
+ * cancels the request in flight and any pending retry.
+ *
+ * @throws SolverError describing why the request failed.
+ */
+export const solve = async (request: SolveRequest, options: SolveOptions = {}): Promise<SolveResponse> => {
+    const { baseUrl, params, signal, timeoutMs, retries, retryDelayMs } = { ...DEFAULT_SOLVE_OPTIONS, ...options };
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const response = await axios.post(`${baseUrl}/magic`, request, { params, signal, timeout: timeoutMs });
+            return parseSolveResponse(response.data);
+        } catch (error) {
+            const solverError = toSolverError(error, signal);
+            if (!solverError.retryable || attempt >= retries) {
+                throw solverError;
+            }
+            await wait(retryDelayMs * 2 ** attempt, signal);
+        }
+    }
+};
@@ -0,0 +1,179 @@
+import type { BoardObject, Point } from '@/lib/board/types';
+
+/**
+ * An object together with the z-index it occupies (or will occupy) in the board.
+ */
+export interface IndexedObject {
+    index: number;
+    object: BoardObject;
+}
+
+export type EditPatch = Record<string, unknown>;
+
+/**
+ * Commands are plain data so history stays cheap to keep, serialize and replay.
+ * Every command carries enough information to be inverted without consulting
+ * the board it was applied to.
+ */
+export type Command =
+    | { type: 'add'; entries: IndexedObject[] }
+    | { type: 'erase'; entries: IndexedObject[] }
+    | { type: 'move'; ids: string[]; dx: number; dy: number }
+    | { type: 'edit'; id: string; before: EditPatch; after: EditPatch }
+    | { type: 'batch'; commands: Command[] };
+
+const translate = (point: Point, dx: number, dy: number): Point => ({ x: point.x + dx, y: point.y + dy });
+
+const moveObject = (object: BoardObject, dx: number, dy: number): BoardObject => {
+    switch (object.kind) {
+        case 'stroke':
+            return { ...object, points: object.points.map((point) => translate(point, dx, dy)) };
+        case 'shape':
+            return {
+                ...object,
+                start: translate(object.start, dx, dy),
+                end: translate(object.end, dx, dy),
+                ...(object.points ? { points: object.points.map((point) => translate(point, dx, dy)) } : {}),
+            };
+        case 'graph':
+        case 'text':
+        case 'latex':
+            return { ...object, position: translate(object.position, dx, dy) };
+        default:
+            return object;
+    }
+};
+
+const insertEntries = (objects: BoardObject[], entries: IndexedObject[]): BoardObject[] => {
+    const next = [...objects];
+    [...entries]
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ index, object }) => {
+            next.splice(Math.min(index, next.length), 0, object);
+        });
+    return next;
+};
+
+const removeEntries = (objects: BoardObject[], entries: IndexedObject[]): BoardObject[] => {
+    const ids = new Set(entries.map(({ object }) => object.id));
+    return objects.filter((object) => !ids.has(object.id));
+};
+
+/**
+ * Applies a command to the board and returns the new object list.
+ */
+export const applyCommand = (objects: BoardObject[], command: Command): BoardObject[] => {
+    switch (command.type) {
+        case 'add':
+            return insertEntries(objects, command.entries);
+        case 'erase':
+            return removeEntries(objects, command.entries);
+        case 'move': {
+            const ids = new Set(command.ids);
+            return objects.map((object) => (ids.has(object.id) ? moveObject(object, command.dx, command.dy) : object));
+        }
+        case 'edit':
+            return objects.map((object) =>
+                object.id === command.id ? ({ ...object, ...command.after } as BoardObject) : object,
+            );
+        case 'batch':
+            return command.commands.reduce(applyCommand, objects);
+        default:
+            return objects;
+    }
+};
+
+/**
+ * Returns the command that undoes `command`.
+ */
+export const invertCommand = (command: Command): Command => {
+    switch (command.type) {
+        case 'add':
+            return { type: 'erase', entries: command.entries };
+        case 'erase':
+            return { type: 'add', entries: command.entries };
+        case 'move':
+            return { ...command, dx: -command.dx, dy: -command.dy };
+        case 'edit':
+            return { ...command, before: command.after, after: command.before };
+        case 'batch':
+            return { type: 'batch', commands: [...command.commands].reverse().map(invertCommand) };
+        default:
+            return command;
+    }
+};
+
+/**
+ * Builds an `add` command that places `added` on top of the current board.
+ */
+export const addObjects = (objects: BoardObject[], added: BoardObject[]): Command => ({
+    type: 'add',
+    entries: added.map((object, offset) => ({ index: objects.length + offset, object })),
+});
+
+/**
+ * Builds an `erase` command for the given ids, remembering where each object sat.
+ */
+export const eraseObjects = (objects: BoardObject[], ids: string[]): Command => {
+    const idSet = new Set(ids);
+    return {
+        type: 'erase',
+        entries: objects
+            .map((object, index) => ({ index, object }))
+            .filter(({ object }) => idSet.has(object.id)),
+    };
+};
+
+export const moveObjects = (ids: string[], dx: number, dy: number): Command => ({ type: 'move', ids, dx, dy });
+
+/**
+ * Builds an `edit` command, capturing the current values of every patched field.
+ */
+export const editObject = (object: BoardObject, patch: EditPatch): Command => {
+    const before: EditPatch = {};
+    Object.keys(patch).forEach((key) => {
+        before[key] = (object as unknown as Record<string, unknown>)[key];
+    });
+    return { type: 'edit', id: object.id, before, after: patch };
+};
+
+export type ZOrder = 'front' | 'forward' | 'backward' | 'back';
+
+/**
+ * Builds a command that changes the stacking order of the given objects,
+ * keeping their order relative to each other. Returns null when nothing moves.
+ */
+export const reorderObjects = (objects: BoardObject[], ids: string[], placement: ZOrder): Command | null => {
+    const idSet = new Set(ids);
+    const selected = objects.filter((object) => idSet.has(object.id));
+    const rest = objects.filter((object) => !idSet.has(object.id));
+    let order: BoardObject[];
+    if (placement === 'front') {
+        order = [...rest, ...selected];
+    } else if (placement === 'back') {
+        order = [...selected, ...rest];
+    } else {
+        // Step each selected object past its nearest unselected neighbour.
+        order = [...objects];
+        const step = placement === 'forward' ? 1 : -1;
+        const indices = order.map((_, index) => index).filter((index) => idSet.has(order[index].id));
+        (step === 1 ? indices.reverse() : indices).forEach((index) => {
+            const target = index + step;
+            if (target < 0 || target >= order.length || idSet.has(order[target].id)) return;
+            [order[index], order[target]] = [order[target], order[index]];
+        });
+    }
+    if (order.every((object, index) => object === objects[index])) return null;
+    return {
+        type: 'batch',
+        commands: [
+            eraseObjects(objects, ids),
+            {
+                type: 'add',
+                entries: order
+                    .map((object, index) => ({ index, object }))
+                    .filter(({ object }) => idSet.has(object.id)),
+            },
+        ],
+    };
+};
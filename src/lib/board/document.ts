@@ -0,0 +1,225 @@
+import { parseLayers, type BoardLayers } from '@/lib/board/layers';
+import type { BoardObject, Point } from '@/lib/board/types';
+import type { VariableInfo } from '@/lib/board/variables';
+import { resultToTex } from '@/lib/math/typeset';
+
+export const DOCUMENT_FORMAT = 'mathscribe';
+export const DOCUMENT_VERSION = 2;
+export const DOCUMENT_EXTENSION = '.mathscribe';
+export const DOCUMENT_MIME_TYPE = 'application/vnd.mathscribe+json';
+
+/**
+ * A saved board. See `docs/mathscribe-format.md` for the field reference.
+ */
+export interface BoardDocument {
+    format: typeof DOCUMENT_FORMAT;
+    version: typeof DOCUMENT_VERSION;
+    name: string;
+    savedAt: string;
+    objects: BoardObject[];
+    variables: { [key: string]: string };
+    /** Optional provenance for each variable, keyed like `variables`. */
+    variableInfo?: { [key: string]: VariableInfo };
+    /** Visibility, lock, opacity and Run settings of each layer; the defaults when absent. */
+    layers?: BoardLayers;
+}
+
+export class BoardDocumentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BoardDocumentError';
+    }
+}
+
+type RawDocument = Record<string, unknown> & { version: number };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Version 1 cards hold MathJax 2 markup with both sides wrapped in `\text{}`.
+ */
+const LEGACY_CARD_TEXT = /^\\\(\\LARGE\{\\text\{([\s\S]*)\} = \\text\{([\s\S]*)\}\}\\\)$/;
+
+/**
+ * Upgrades a raw document from `version` to `version + 1`. Add an entry here
+ * (and bump `DOCUMENT_VERSION`) whenever the format changes incompatibly.
+ */
+const MIGRATIONS: Record<number, (document: RawDocument) => RawDocument> = {
+    // Version 2: a card's `text` is plain TeX for its formula.
+    1: (document) => ({
+        ...document,
+        version: 2,
+        objects: Array.isArray(document.objects)
+            ? document.objects.map((object) => {
+                if (!isRecord(object) || object.kind !== 'latex' || typeof object.text !== 'string') return object;
+                const legacy = LEGACY_CARD_TEXT.exec(object.text);
+                const expr = typeof object.expr === 'string' ? object.expr : legacy?.[1];
+                const result = typeof object.result === 'string' ? object.result : legacy?.[2];
+                return expr !== undefined && result !== undefined
+                    ? { ...object, text: resultToTex(expr, result) }
+                    : object;
+            })
+            : document.objects,
+    }),
+};
+
+const isPoint = (value: unknown): value is Point =>
+    isRecord(value) && typeof value.x === 'number' && typeof value.y === 'number';
+
+const isVerification = (value: unknown): boolean =>
+    isRecord(value) && ['verified', 'mismatch', 'unchecked'].includes(value.status as string)
+    && (value.computed === undefined || typeof value.computed === 'string')
+    && (value.note === undefined || typeof value.note === 'string');
+
+/**
+ * Checks one board object's shape at runtime, for objects from files, storage
+ * and collaborators.
+ */
+export const isBoardObject = (value: unknown): value is BoardObject => {
+    if (!isRecord(value) || typeof value.id !== 'string') return false;
+    switch (value.kind) {
+        case 'stroke':
+            return Array.isArray(value.points) && value.points.every(isPoint)
+                && typeof value.color === 'string' && typeof value.width === 'number'
+                && (value.pressures === undefined
+                    || (Array.isArray(value.pressures) && value.pressures.length === value.points.length
+                        && value.pressures.every((pressure) => typeof pressure === 'number')));
+        case 'shape':
+            return ['rectangle', 'square', 'circle', 'triangle', 'line', 'arrow', 'ellipse', 'regular-polygon', 'polygon']
+                .includes(value.shape as string)
+                && isPoint(value.start) && isPoint(value.end)
+                && typeof value.color === 'string' && typeof value.width === 'number'
+                && (value.fill === undefined || typeof value.fill === 'string')
+                && (value.dash === undefined || ['solid', 'dashed', 'dotted'].includes(value.dash as string))
+                && (value.sides === undefined || (Number.isInteger(value.sides) && (value.sides as number) >= 3))
+                && (value.points === undefined || (Array.isArray(value.points) && value.points.every(isPoint)))
+                && (value.rotation === undefined || typeof value.rotation === 'number')
+                && (value.measure === undefined || typeof value.measure === 'boolean');
+        case 'graph':
+            return isPoint(value.position) && typeof value.width === 'number' && typeof value.height === 'number'
+                && isRecord(value.range)
+                && ['xMin', 'xMax', 'yMin', 'yMax'].every((key) => typeof (value.range as Record<string, unknown>)[key] === 'number')
+                && typeof value.grid === 'boolean' && typeof value.labels === 'boolean'
+                && Array.isArray(value.functions)
+                && value.functions.every((fn) => isRecord(fn) && typeof fn.expr === 'string' && typeof fn.color === 'string');
+        case 'text':
+            return isPoint(value.position) && typeof value.text === 'string' && typeof value.fontSize === 'number'
+                && (value.color === undefined || typeof value.color === 'string')
+                && (value.bold === undefined || typeof value.bold === 'boolean')
+                && (value.italic === undefined || typeof value.italic === 'boolean')
+                && (value.fontFamily === undefined
+                    || ['sans-serif', 'serif', 'monospace', 'handwriting'].includes(value.fontFamily as string))
+                && (value.align === undefined || ['left', 'center', 'right'].includes(value.align as string));
+        case 'latex':
+            return isPoint(value.position) && typeof value.text === 'string'
+                && (value.expr === undefined || typeof value.expr === 'string')
+                && (value.result === undefined || typeof value.result === 'string')
+                && (value.anchor === undefined || isPoint(value.anchor))
+                && (value.steps === undefined
+                    || (Array.isArray(value.steps)
+                        && value.steps.every((step) => isRecord(step)
+                            && typeof step.latex === 'string' && typeof step.explanation === 'string')))
+                && (value.verification === undefined || isVerification(value.verification));
+        default:
+            return false;
+    }
+};
+
+const isVariableInfo = (value: unknown): value is VariableInfo =>
+    isRecord(value) && (value.source === 'run' || value.source === 'manual') && typeof value.updatedAt === 'string';
+
+const migrate = (document: RawDocument): RawDocument => {
+    let current = document;
+    while (current.version < DOCUMENT_VERSION) {
+        const step = MIGRATIONS[current.version];
+        if (!step) {
+            throw new BoardDocumentError(`No migration from version ${current.version}`);
+        }
+        current = step(current);
+    }
+    return current;
+};
+
+/**
+ * Builds a document for the current board.
+ */
+export const createDocument = (
+    name: string,
+    objects: BoardObject[],
+    variables: { [key: string]: string },
+    variableInfo?: { [key: string]: VariableInfo },
+    layers?: BoardLayers,
+): BoardDocument => ({
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    name,
+    savedAt: new Date().toISOString(),
+    objects,
+    variables,
+    ...(variableInfo ? { variableInfo } : {}),
+    ...(layers ? { layers } : {}),
+});
+
+export const serializeDocument = (document: BoardDocument): string => JSON.stringify(document, null, 2);
+
+/**
+ * Validates a parsed document, migrating it to the current version first.
+ *
+ * @throws BoardDocumentError when the value is not a readable MathScribe board.
+ */
+export const validateDocument = (value: unknown): BoardDocument => {
+    if (!isRecord(value) || value.format !== DOCUMENT_FORMAT) {
+        throw new BoardDocumentError('Not a MathScribe board');
+    }
+    if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+        throw new BoardDocumentError('Missing or invalid document version');
+    }
+    if (value.version > DOCUMENT_VERSION) {
+        throw new BoardDocumentError(
+            `This board was saved by a newer version of MathScribe (format ${value.version})`,
+        );
+    }
+    const document = migrate(value as RawDocument);
+    if (!Array.isArray(document.objects) || !document.objects.every(isBoardObject)) {
+        throw new BoardDocumentError('The board contains invalid objects');
+    }
+    const variables = document.variables;
+    if (!isRecord(variables) || !Object.values(variables).every((entry) => typeof entry === 'string')) {
+        throw new BoardDocumentError('The board contains invalid variables');
+    }
+    return {
+        format: DOCUMENT_FORMAT,
+        version: DOCUMENT_VERSION,
+        name: typeof document.name === 'string' ? document.name : 'Untitled board',
+        savedAt: typeof document.savedAt === 'string' ? document.savedAt : new Date().toISOString(),
+        objects: document.objects,
+        variables: variables as { [key: string]: string },
+        // Provenance is informational, so entries that do not parse are dropped rather than rejected.
+        ...(isRecord(document.variableInfo)
+            ? {
+                variableInfo: Object.fromEntries(
+                    Object.entries(document.variableInfo).filter(
+                        (entry): entry is [string, VariableInfo] => entry[0] in variables && isVariableInfo(entry[1]),
+                    ),
+                ),
+            }
+            : {}),
+        ...(document.layers !== undefined ? { layers: parseLayers(document.layers) } : {}),
+    };
+};
+
+/**
+ * Parses the text of a `.mathscribe` file.
+ *
+ * @throws BoardDocumentError when the text is not valid JSON or not a MathScribe board.
+ */
+export const parseDocument = (text: string): BoardDocument => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        throw new BoardDocumentError('The file is not valid JSON');
+    }
+    return validateDocument(value);
+};
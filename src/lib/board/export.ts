@@ -0,0 +1,340 @@
+import { jsPDF } from 'jspdf';
+
+import {
+    getInkBounds,
+    getTextBounds,
+    renderInk,
+    renderTextItem,
+    shapeCenter,
+    shapeOutline,
+    TEXT_CONTENT_OFFSET,
+    unionBounds,
+    type Bounds,
+} from '@/lib/board/render';
+import { GRAPH_STYLE, layoutGraph } from '@/lib/board/graph';
+import { strokePieces, strokeWidthAt, type StrokePiece } from '@/lib/board/ink';
+import { measureShape, MEASUREMENT_STYLE, type Measurement } from '@/lib/board/measure';
+import { boundsAt, leaderLine, LEADER_LINE_STYLE } from '@/lib/board/placement';
+import { dashPattern, isClosedShape } from '@/lib/board/shapes';
+import { layoutText, prepareTextMath, textColor, textFont, type PlacedRun } from '@/lib/board/text';
+import {
+    objectsOfKind,
+    type BoardObject,
+    type GraphObject,
+    type Point,
+    type ShapeObject,
+    type TextItem,
+} from '@/lib/board/types';
+import { downloadBlob, toFileName } from '@/lib/download';
+
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+
+/**
+ * A typeset result card captured from the DOM, ready to be placed in an export.
+ */
+export interface CardSnapshot {
+    id: string;
+    position: Point;
+    width: number;
+    height: number;
+    image: HTMLCanvasElement;
+    /**
+     * For vector output: the card without its formula, and the formula as an
+     * SVG element already positioned in board coordinates.
+     */
+    vector?: {
+        background: HTMLCanvasElement;
+        formula: string;
+    };
+}
+
+export interface ExportSource {
+    objects: BoardObject[];
+    cards: CardSnapshot[];
+}
+
+const EXPORT_MARGIN = 24;
+const PNG_SCALE = 2;
+const PDF_PAGE_MARGIN = 36;
+
+/**
+ * Returns the area covered by everything on the board, plus a margin.
+ */
+export const getExportBounds = (source: ExportSource): Bounds => {
+    const bounds = unionBounds([
+        ...source.objects.map(getInkBounds),
+        ...objectsOfKind(source.objects, 'text').map(getTextBounds),
+        ...source.cards.map((card) => ({
+            minX: card.position.x,
+            minY: card.position.y,
+            maxX: card.position.x + card.width,
+            maxY: card.position.y + card.height,
+        })),
+    ]) ?? { minX: 0, minY: 0, maxX: 800, maxY: 600 };
+    return {
+        minX: bounds.minX - EXPORT_MARGIN,
+        minY: bounds.minY - EXPORT_MARGIN,
+        maxX: bounds.maxX + EXPORT_MARGIN,
+        maxY: bounds.maxY + EXPORT_MARGIN,
+    };
+};
+
+/**
+ * The leader lines between each captured card and its expression.
+ */
+const leaderLines = (source: ExportSource): [Point, Point][] => {
+    const anchors = new Map(objectsOfKind(source.objects, 'latex').map((card) => [card.id, card.anchor]));
+    return source.cards
+        .map((card) => {
+            const anchor = anchors.get(card.id);
+            return anchor ? leaderLine(anchor, boundsAt(card.position, card)) : null;
+        })
+        .filter((line): line is [Point, Point] => line !== null);
+};
+
+/**
+ * Paints the part of the board inside `bounds` onto a new canvas.
+ */
+export const renderToCanvas = (source: ExportSource, bounds: Bounds, scale = 1): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil((bounds.maxX - bounds.minX) * scale);
+    canvas.height = Math.ceil((bounds.maxY - bounds.minY) * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.scale(scale, scale);
+    ctx.translate(-bounds.minX, -bounds.minY);
+    renderInk(ctx, source.objects);
+    objectsOfKind(source.objects, 'text').forEach((item) => renderTextItem(ctx, item));
+    ctx.save();
+    ctx.strokeStyle = LEADER_LINE_STYLE.color;
+    ctx.lineWidth = LEADER_LINE_STYLE.width;
+    ctx.setLineDash(LEADER_LINE_STYLE.dash);
+    leaderLines(source).forEach(([from, to]) => {
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+    });
+    ctx.restore();
+    source.cards.forEach((card) => {
+        ctx.drawImage(card.image, card.position.x, card.position.y, card.width, card.height);
+    });
+    return canvas;
+};
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toPoints = (points: Point[]) => points.map((p) => `${p.x},${p.y}`).join(' ');
+
+const toCurve = (piece: StrokePiece) => `Q${piece.control.x} ${piece.control.y} ${piece.to.x} ${piece.to.y}`;
+
+const measurementsToSvg = (measurements: Measurement[]): string => [
+    ...measurements.flatMap(({ guide }) => (guide
+        ? [`<line x1="${guide[0].x}" y1="${guide[0].y}" x2="${guide[1].x}" y2="${guide[1].y}" `
+            + `stroke="${MEASUREMENT_STYLE.color}" stroke-width="1" stroke-dasharray="4 3"/>`]
+        : [])),
+    ...measurements.map(({ text, at }) =>
+        `<text x="${at.x}" y="${at.y}" font-family="sans-serif" font-size="${MEASUREMENT_STYLE.fontSize}" `
+        + `text-anchor="middle" dominant-baseline="middle" fill="${MEASUREMENT_STYLE.color}" `
+        + `stroke="${MEASUREMENT_STYLE.halo}" stroke-width="3" stroke-linejoin="round" paint-order="stroke">`
+        + `${escapeXml(text)}</text>`),
+].join('');
+
+const SVG_ANCHORS = { left: 'start', center: 'middle', right: 'end' };
+const SVG_BASELINES = { top: 'text-before-edge', middle: 'middle' };
+
+const graphToSvg = (graph: GraphObject): string => {
+    const { id, position: { x, y }, width, height } = graph;
+    const layout = layoutGraph(graph);
+    const segments = (lines: [Point, Point][]) => lines.map(([from, to]) => `M${from.x} ${from.y}L${to.x} ${to.y}`).join('');
+    const clip = `clip-${escapeXml(id)}`;
+    const frame = `x="${x}" y="${y}" width="${width}" height="${height}"`;
+    return [
+        `<g><clipPath id="${clip}"><rect ${frame}/></clipPath>`,
+        `<rect ${frame} fill="${GRAPH_STYLE.background}"/>`,
+        `<g clip-path="url(#${clip})" fill="none" stroke-width="1">`,
+        layout.grid.length > 0 ? `<path d="${segments(layout.grid)}" stroke="${GRAPH_STYLE.grid}"/>` : '',
+        `<path d="${segments(layout.axes)}" stroke="${GRAPH_STYLE.axis}"/>`,
+        ...layout.labels.map((label) =>
+            `<text x="${label.at.x}" y="${label.at.y}" font-family="sans-serif" font-size="${GRAPH_STYLE.fontSize}" `
+            + `text-anchor="${SVG_ANCHORS[label.align]}" dominant-baseline="${SVG_BASELINES[label.baseline]}" `
+            + `fill="${GRAPH_STYLE.label}" stroke="none">${escapeXml(label.text)}</text>`),
+        ...layout.curves.flatMap((curve) => curve.paths.map((path) =>
+            `<polyline points="${toPoints(path)}" stroke="${escapeXml(curve.color)}" stroke-width="${GRAPH_STYLE.curveWidth}" `
+            + 'stroke-linecap="round" stroke-linejoin="round"/>')),
+        '</g>',
+        `<rect ${frame} fill="none" stroke="${GRAPH_STYLE.frame}" stroke-width="1"/></g>`,
+    ].join('');
+};
+
+const shapeToSvg = (object: ShapeObject): string => {
+    const dash = dashPattern(object.dash, object.width);
+    const fill = object.fill && isClosedShape(object.shape) ? escapeXml(object.fill) : 'none';
+    const style = `fill="${fill}" stroke="${escapeXml(object.color)}" stroke-width="${object.width}" stroke-linejoin="round"`
+        + (dash.length > 0 ? ` stroke-dasharray="${dash.join(' ')}"` : '')
+        + (object.dash === 'dotted' || !isClosedShape(object.shape) ? ' stroke-linecap="round"' : '');
+    if (object.shape === 'circle') {
+        const radius = Math.hypot(object.end.x - object.start.x, object.end.y - object.start.y);
+        return `<circle cx="${object.start.x}" cy="${object.start.y}" r="${radius}" ${style}/>`;
+    }
+    if (object.shape === 'ellipse') {
+        const center = shapeCenter(object);
+        const rotate = object.rotation
+            ? ` transform="rotate(${(object.rotation * 180) / Math.PI} ${center.x} ${center.y})"`
+            : '';
+        return `<ellipse cx="${center.x}" cy="${center.y}" rx="${Math.abs(object.end.x - object.start.x) / 2}" `
+            + `ry="${Math.abs(object.end.y - object.start.y) / 2}"${rotate} ${style}/>`;
+    }
+    const outline = shapeOutline(object);
+    if (object.shape === 'line') {
+        return `<polyline points="${toPoints(outline)}" ${style}/>`;
+    }
+    if (object.shape === 'arrow') {
+        const [from, to, left, right] = outline;
+        const color = escapeXml(object.color);
+        return `<g><polyline points="${toPoints([from, to])}" ${style}/>`
+            + `<polygon points="${toPoints([to, left, right])}" fill="${color}" stroke="${color}" `
+            + `stroke-width="${object.width}" stroke-linejoin="round"/></g>`;
+    }
+    return `<polygon points="${toPoints(outline.slice(0, -1))}" ${style}/>`;
+};
+
+const objectToSvg = (object: BoardObject): string => {
+    switch (object.kind) {
+        case 'stroke': {
+            const [first] = object.points;
+            if (!first) return '';
+            const style = `fill="none" stroke="${escapeXml(object.color)}" stroke-linecap="round" stroke-linejoin="round"`;
+            const pieces = strokePieces(object);
+            if (pieces.length === 0) {
+                return `<path d="M${first.x} ${first.y} l0.01 0" stroke-width="${strokeWidthAt(object, 0)}" ${style}/>`;
+            }
+            if (object.pressures) {
+                const paths = pieces.map((piece) =>
+                    `<path d="M${piece.from.x} ${piece.from.y} ${toCurve(piece)}" stroke-width="${piece.width}"/>`);
+                return `<g ${style}>${paths.join('')}</g>`;
+            }
+            const d = `M${first.x} ${first.y} ${pieces.map(toCurve).join(' ')}`;
+            return `<path d="${d}" stroke-width="${object.width}" ${style}/>`;
+        }
+        case 'shape': {
+            if (!object.measure) return shapeToSvg(object);
+            return `<g>${shapeToSvg(object)}${measurementsToSvg(measureShape(object, shapeOutline(object)))}</g>`;
+        }
+        case 'graph':
+            return graphToSvg(object);
+        case 'text':
+            return textItemToSvg(object);
+        default:
+            return '';
+    }
+};
+
+/**
+ * An inline formula as a nested SVG, placed on the run's baseline.
+ */
+const inlineMathToSvg = (run: Extract<PlacedRun, { kind: 'math' }>, x: number, y: number): string => {
+    const svg = run.math.svg.cloneNode(true) as SVGSVGElement;
+    svg.removeAttribute('style');
+    svg.setAttribute('x', String(x + run.x));
+    svg.setAttribute('y', String(y + run.baseline + run.depth - run.height));
+    svg.setAttribute('width', String(run.width));
+    svg.setAttribute('height', String(run.height));
+    return new XMLSerializer().serializeToString(svg);
+};
+
+const textItemToSvg = (item: TextItem): string => {
+    const x = item.position.x + TEXT_CONTENT_OFFSET.x;
+    const y = item.position.y + TEXT_CONTENT_OFFSET.y;
+    const color = escapeXml(textColor(item));
+    const runs = layoutText(item).runs.map((run) => (run.kind === 'text'
+        ? `<text x="${x + run.x}" y="${y + run.baseline}" xml:space="preserve">${escapeXml(run.text)}</text>`
+        : inlineMathToSvg(run, x, y)));
+    return `<g style="font: ${escapeXml(textFont(item))}" fill="${color}" color="${color}">${runs.join('')}</g>`;
+};
+
+const cardToSvg = (card: CardSnapshot): string => {
+    const image = (canvas: HTMLCanvasElement) =>
+        `<image x="${card.position.x}" y="${card.position.y}" width="${card.width}" height="${card.height}" `
+        + `href="${canvas.toDataURL('image/png')}"/>`;
+    return card.vector ? `${image(card.vector.background)}\n${card.vector.formula}` : image(card.image);
+};
+
+/**
+ * Builds a standalone SVG document. Ink, graphs, text and typeset formulas are vector;
+ * the rest of each result card is embedded as an image captured from the board.
+ */
+export const renderToSvg = (source: ExportSource, bounds: Bounds): string => {
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+    const body = [
+        ...source.objects.map(objectToSvg),
+        ...leaderLines(source).map(([from, to]) =>
+            `<line x1="${from.x}" y1="${from.y}" x2="${to.x}" y2="${to.y}" stroke="${LEADER_LINE_STYLE.color}" `
+            + `stroke-width="${LEADER_LINE_STYLE.width}" stroke-dasharray="${LEADER_LINE_STYLE.dash.join(' ')}"/>`,
+        ),
+        ...source.cards.map(cardToSvg),
+    ].filter(Boolean);
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" `
+        + `viewBox="${bounds.minX} ${bounds.minY} ${width} ${height}">`,
+        `<rect x="${bounds.minX}" y="${bounds.minY}" width="${width}" height="${height}" fill="white"/>`,
+        ...body,
+        '</svg>',
+    ].join('\n');
+};
+
+/**
+ * Lays the board out on A4 pages, splitting it top to bottom at the board's full width.
+ */
+const renderToPdf = (source: ExportSource, bounds: Bounds): jsPDF => {
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4' });
+    const pageWidth = pdf.internal.pageSize.getWidth() - PDF_PAGE_MARGIN * 2;
+    const pageHeight = pdf.internal.pageSize.getHeight() - PDF_PAGE_MARGIN * 2;
+    const boardWidth = bounds.maxX - bounds.minX;
+    const pointsPerPixel = pageWidth / boardWidth;
+    const sliceHeight = pageHeight / pointsPerPixel;
+    for (let top = bounds.minY, page = 0; top < bounds.maxY; top += sliceHeight, page++) {
+        const slice = { ...bounds, minY: top, maxY: Math.min(top + sliceHeight, bounds.maxY) };
+        const image = renderToCanvas(source, slice, PNG_SCALE);
+        if (page > 0) pdf.addPage();
+        pdf.addImage(
+            image,
+            'PNG',
+            PDF_PAGE_MARGIN,
+            PDF_PAGE_MARGIN,
+            pageWidth,
+            (slice.maxY - slice.minY) * pointsPerPixel,
+        );
+    }
+    return pdf;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), 'image/png');
+    });
+
+/**
+ * Writes the board in the requested format and downloads it as `name`.
+ */
+export const exportBoard = async (source: ExportSource, format: ExportFormat, name: string): Promise<void> => {
+    await prepareTextMath(objectsOfKind(source.objects, 'text'));
+    const bounds = getExportBounds(source);
+    switch (format) {
+        case 'png':
+            downloadBlob(await canvasToBlob(renderToCanvas(source, bounds, PNG_SCALE)), toFileName(name, '.png'));
+            break;
+        case 'svg':
+            downloadBlob(new Blob([renderToSvg(source, bounds)], { type: 'image/svg+xml' }), toFileName(name, '.svg'));
+            break;
+        case 'pdf':
+            downloadBlob(renderToPdf(source, bounds).output('blob'), toFileName(name, '.pdf'));
+            break;
+        default:
+            break;
+    }
+};
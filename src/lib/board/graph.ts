@@ -0,0 +1,292 @@
+import type { GraphObject, GraphRange, Point } from '@/lib/board/types';
+import { compileExpression, EvaluationError, formatNumber, freeVariables, hasName } from '@/lib/math/evaluate';
+import { latexToPlain } from '@/lib/math/verify';
+
+export const DEFAULT_GRAPH_SIZE = { width: 360, height: 270 };
+/** Graphs dragged out smaller than this get the default size instead. */
+export const MIN_GRAPH_SIZE = 40;
+/** Half the x range of a new graph; y gets the same unit length. */
+const DEFAULT_X_EXTENT = 10;
+/** Roughly how far apart (in board pixels) ticks and grid lines are. */
+const TICK_SPACING = 48;
+export const GRAPH_COLORS = ['#1971c2', '#e03131', '#2f9e44', '#f08c00', '#9c36b5'];
+export const GRAPH_STYLE = {
+    background: 'white',
+    frame: '#868e96',
+    grid: '#e9ecef',
+    axis: '#343a40',
+    label: '#495057',
+    fontSize: 11,
+    curveWidth: 2,
+};
+
+export interface GraphLabel {
+    text: string;
+    at: Point;
+    align: 'left' | 'center' | 'right';
+    baseline: 'top' | 'middle';
+}
+
+/**
+ * Everything a graph draws, in board coordinates, so the canvas and SVG
+ * renderers draw the same picture.
+ */
+export interface GraphLayout {
+    grid: [Point, Point][];
+    axes: [Point, Point][];
+    labels: GraphLabel[];
+    /** Each function's curve, split wherever it is undefined or jumps. */
+    curves: { color: string; paths: Point[][] }[];
+}
+
+/**
+ * A new graph at `position`, with x from -10 to 10 and y scaled so both axes
+ * use the same unit.
+ */
+export const createGraph = (id: string, position: Point, width: number, height: number): GraphObject => {
+    const yExtent = (DEFAULT_X_EXTENT * height) / width;
+    return {
+        kind: 'graph',
+        id,
+        position,
+        width,
+        height,
+        range: { xMin: -DEFAULT_X_EXTENT, xMax: DEFAULT_X_EXTENT, yMin: -yExtent, yMax: yExtent },
+        grid: true,
+        labels: true,
+        functions: [],
+    };
+};
+
+/**
+ * The color for the next function plotted on `graph`.
+ */
+export const nextGraphColor = (graph: GraphObject): string =>
+    GRAPH_COLORS[graph.functions.length % GRAPH_COLORS.length];
+
+export const graphToBoard = (graph: GraphObject, point: Point): Point => {
+    const { xMin, xMax, yMin, yMax } = graph.range;
+    return {
+        x: graph.position.x + ((point.x - xMin) / (xMax - xMin)) * graph.width,
+        y: graph.position.y + ((yMax - point.y) / (yMax - yMin)) * graph.height,
+    };
+};
+
+export const isInsideGraph = (graph: GraphObject, point: Point): boolean =>
+    point.x >= graph.position.x && point.x <= graph.position.x + graph.width
+    && point.y >= graph.position.y && point.y <= graph.position.y + graph.height;
+
+/**
+ * The range after dragging the plot by (`dx`, `dy`) board pixels.
+ */
+export const panRange = (graph: GraphObject, dx: number, dy: number): GraphRange => {
+    const { xMin, xMax, yMin, yMax } = graph.range;
+    const shiftX = (-dx / graph.width) * (xMax - xMin);
+    const shiftY = (dy / graph.height) * (yMax - yMin);
+    return { xMin: xMin + shiftX, xMax: xMax + shiftX, yMin: yMin + shiftY, yMax: yMax + shiftY };
+};
+
+/**
+ * The range zoomed about its center; `factor` above 1 zooms in.
+ */
+export const zoomRange = (range: GraphRange, factor: number): GraphRange => {
+    const cx = (range.xMin + range.xMax) / 2;
+    const cy = (range.yMin + range.yMax) / 2;
+    const halfX = (range.xMax - range.xMin) / 2 / factor;
+    const halfY = (range.yMax - range.yMin) / 2 / factor;
+    return { xMin: cx - halfX, xMax: cx + halfX, yMin: cy - halfY, yMax: cy + halfY };
+};
+
+export const isValidRange = (range: GraphRange): boolean =>
+    [range.xMin, range.xMax, range.yMin, range.yMax].every(Number.isFinite)
+    && range.xMax > range.xMin && range.yMax > range.yMin;
+
+/**
+ * A tick spacing of 1, 2 or 5 times a power of ten giving about `count` ticks over `span`.
+ */
+export const niceStep = (span: number, count: number): number => {
+    const raw = span / Math.max(count, 1);
+    const power = 10 ** Math.floor(Math.log10(raw));
+    const fraction = raw / power;
+    return (fraction < 1.5 ? 1 : fraction < 3.5 ? 2 : fraction < 7.5 ? 5 : 10) * power;
+};
+
+const ticks = (min: number, max: number, step: number): number[] => {
+    const values: number[] = [];
+    for (let k = Math.ceil(min / step); k * step <= max; k++) {
+        // Round away floating-point noise such as 0.30000000000000004.
+        values.push(Number((k * step).toPrecision(12)));
+    }
+    return values;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Samples `expr` once per board pixel across the graph. Paths break where
+ * the function is undefined or jumps by more than the plot's height, as at
+ * the asymptotes of `tan(x)` or `1/x`.
+ */
+const plotPaths = (graph: GraphObject, expr: string): Point[][] => {
+    let evaluate: (variables: Record<string, number>) => number;
+    try {
+        evaluate = compileExpression(expr);
+    } catch {
+        return [];
+    }
+    const { xMin, xMax } = graph.range;
+    const top = graph.position.y - graph.height;
+    const bottom = graph.position.y + graph.height * 2;
+    const paths: Point[][] = [];
+    let path: Point[] = [];
+    const samples = Math.max(Math.ceil(graph.width), 2);
+    for (let i = 0; i <= samples; i++) {
+        const x = xMin + (i / samples) * (xMax - xMin);
+        let y: number;
+        try {
+            y = evaluate({ x });
+        } catch {
+            y = NaN;
+        }
+        const point = Number.isFinite(y) ? graphToBoard(graph, { x, y }) : null;
+        const previous = path[path.length - 1];
+        if (!point || (previous && Math.abs(point.y - previous.y) > graph.height)) {
+            if (path.length > 1) paths.push(path);
+            path = [];
+        }
+        // Far-off values are pulled in so the coordinates stay sane; the plot is clipped anyway.
+        if (point) path.push({ x: point.x, y: clamp(point.y, top, bottom) });
+    }
+    if (path.length > 1) paths.push(path);
+    return paths;
+};
+
+/**
+ * Works out the grid, axes, tick labels and curves of a graph.
+ */
+export const layoutGraph = (graph: GraphObject): GraphLayout => {
+    const { position, width, height, range } = graph;
+    const right = position.x + width;
+    const bottom = position.y + height;
+    const stepX = niceStep(range.xMax - range.xMin, width / TICK_SPACING);
+    const stepY = niceStep(range.yMax - range.yMin, height / TICK_SPACING);
+    const xTicks = ticks(range.xMin, range.xMax, stepX);
+    const yTicks = ticks(range.yMin, range.yMax, stepY);
+    // Axes off screen stick to the nearest edge, so the numbers stay visible.
+    const origin = graphToBoard(graph, {
+        x: clamp(0, range.xMin, range.xMax),
+        y: clamp(0, range.yMin, range.yMax),
+    });
+
+    const grid: [Point, Point][] = graph.grid
+        ? [
+            ...xTicks.map((x): [Point, Point] => {
+                const { x: bx } = graphToBoard(graph, { x, y: 0 });
+                return [{ x: bx, y: position.y }, { x: bx, y: bottom }];
+            }),
+            ...yTicks.map((y): [Point, Point] => {
+                const { y: by } = graphToBoard(graph, { x: 0, y });
+                return [{ x: position.x, y: by }, { x: right, y: by }];
+            }),
+        ]
+        : [];
+    const axes: [Point, Point][] = [
+        [{ x: position.x, y: origin.y }, { x: right, y: origin.y }],
+        [{ x: origin.x, y: position.y }, { x: origin.x, y: bottom }],
+    ];
+
+    const labels: GraphLabel[] = [];
+    if (graph.labels) {
+        const originShown = range.xMin <= 0 && range.xMax >= 0 && range.yMin <= 0 && range.yMax >= 0;
+        const labelY = Math.min(origin.y + 3, bottom - GRAPH_STYLE.fontSize - 2);
+        xTicks.forEach((x) => {
+            if (x === 0 && originShown) return;
+            labels.push({ text: formatNumber(x), at: { x: graphToBoard(graph, { x, y: 0 }).x, y: labelY }, align: 'center', baseline: 'top' });
+        });
+        const leftOfAxis = origin.x - position.x > 30;
+        yTicks.forEach((y) => {
+            if (y === 0 && originShown) return;
+            labels.push({
+                text: formatNumber(y),
+                at: { x: leftOfAxis ? origin.x - 4 : origin.x + 4, y: graphToBoard(graph, { x: 0, y }).y },
+                align: leftOfAxis ? 'right' : 'left',
+                baseline: 'middle',
+            });
+        });
+        if (originShown) {
+            labels.push({ text: '0', at: { x: origin.x - 4, y: origin.y + 3 }, align: 'right', baseline: 'top' });
+        }
+    }
+
+    const curves = graph.functions.map((fn) => ({ color: fn.color, paths: plotPaths(graph, fn.expr) }));
+    return { grid, axes, labels, curves };
+};
+
+/**
+ * Replaces whole-word `name` in an expression, leaving longer names such as `ab` for `a` alone.
+ */
+const substitute = (expr: string, name: string, value: string) =>
+    expr.replace(new RegExp(`(?<![A-Za-z0-9_])${name}(?![A-Za-z0-9_])`, 'g'), value);
+
+/**
+ * Reads a function typed by the user or returned by the solver, such as
+ * `y = x^2 - 3`, `f(x) = 2x + 1`, `\frac{1}{2}x^{2}` or plain `sin(x)`, and
+ * returns its right-hand side in terms of `x`. Other names are replaced by
+ * the values of `variables`, so a plot keeps its shape when they change.
+ *
+ * @throws EvaluationError when it is not a function of x this can plot.
+ */
+export const parseGraphFunction = (source: string, variables: Record<string, number> = {}): string => {
+    let expr = latexToPlain(source).trim();
+    const sides = expr.split('=');
+    if (sides.length > 2) throw new EvaluationError('Use at most one "="');
+    if (sides.length === 2) {
+        if (!/^\s*(y|[A-Za-z]\w*\s*\(\s*x\s*\))\s*$/.test(sides[0])) {
+            throw new EvaluationError('Write the function as "y = …" in terms of x');
+        }
+        expr = sides[1].trim();
+    }
+    const names = freeVariables(expr).filter((name) => name !== 'x');
+    const unknown = names.find((name) => !hasName(variables, name));
+    if (unknown) throw new EvaluationError(`Unknown variable "${unknown}"`);
+    names.forEach((name) => {
+        expr = substitute(expr, name, `(${formatNumber(variables[name])})`);
+    });
+    // Catches syntax errors now rather than at every sample.
+    compileExpression(expr)({ x: 1 });
+    return expr;
+};
+
+const mentionsX = (source: string): boolean => {
+    try {
+        const sides = latexToPlain(source).split('=');
+        return freeVariables(sides[sides.length - 1]).includes('x');
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * The function of x in a solver result, if it has one: the answer itself
+ * (as in `f(x)` → `2x + 1`), or the expression when it is written as
+ * `y = …`. Returns null for plain numeric answers.
+ */
+export const functionFromResult = (
+    result: { expr?: string; result?: string },
+    variables: Record<string, number> = {},
+): string | null => {
+    const candidates = [
+        result.result,
+        result.expr?.includes('=') ? result.expr : undefined,
+        result.expr && result.result ? `${result.expr} = ${result.result}` : undefined,
+    ];
+    for (const candidate of candidates) {
+        if (!candidate || !mentionsX(candidate)) continue;
+        try {
+            return parseGraphFunction(candidate, variables);
+        } catch {
+            // Try the next way of reading it.
+        }
+    }
+    return null;
+};
@@ -0,0 +1,61 @@
+import type { Point, StrokeObject } from '@/lib/board/types';
+
+/**
+ * One curve of a smoothed stroke: a quadratic Bézier from `from` to `to`,
+ * drawn `width` wide.
+ */
+export interface StrokePiece {
+    from: Point;
+    control: Point;
+    to: Point;
+    width: number;
+}
+
+/** Width of a pen stroke at zero and at full pressure, relative to the chosen width. */
+const MIN_PRESSURE_SCALE = 0.25;
+const MAX_PRESSURE_SCALE = 1.75;
+/** Pressure reported by devices that cannot sense it, e.g. a mouse with its button down. */
+export const DEFAULT_PRESSURE = 0.5;
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Maps pen pressure (0–1) to a line width, so that the default pressure draws
+ * at the chosen width.
+ */
+export const pressureWidth = (width: number, pressure: number): number =>
+    width * (MIN_PRESSURE_SCALE + (MAX_PRESSURE_SCALE - MIN_PRESSURE_SCALE) * Math.min(Math.max(pressure, 0), 1));
+
+/**
+ * The width of a stroke at its `index`-th point.
+ */
+export const strokeWidthAt = (stroke: StrokeObject, index: number): number =>
+    stroke.pressures ? pressureWidth(stroke.width, stroke.pressures[index] ?? DEFAULT_PRESSURE) : stroke.width;
+
+/**
+ * The widest the stroke gets, for bounds and hit testing.
+ */
+export const maxStrokeWidth = (stroke: StrokeObject): number =>
+    stroke.pressures && stroke.pressures.length > 0
+        ? pressureWidth(stroke.width, Math.max(...stroke.pressures))
+        : stroke.width;
+
+/**
+ * Splits a stroke of two or more points into curves through the midpoints
+ * between samples, with each sample as a control point. This rounds off the
+ * corners between pointer samples without moving the line away from them.
+ */
+export const strokePieces = (stroke: StrokeObject): StrokePiece[] => {
+    const { points } = stroke;
+    if (points.length < 2) return [];
+    const pieces: StrokePiece[] = [];
+    let from = points[0];
+    for (let i = 1; i < points.length - 1; i++) {
+        const to = midpoint(points[i], points[i + 1]);
+        pieces.push({ from, control: points[i], to, width: strokeWidthAt(stroke, i) });
+        from = to;
+    }
+    const last = points[points.length - 1];
+    pieces.push({ from, control: midpoint(from, last), to: last, width: strokeWidthAt(stroke, points.length - 1) });
+    return pieces;
+};
@@ -0,0 +1,101 @@
+import type { BoardObject } from '@/lib/board/types';
+
+/**
+ * The layers of a board. Every object belongs to the layer of its kind:
+ * freehand strokes to ink, shapes and graphs to shapes, text items to text
+ * and result cards to results.
+ */
+export type LayerId = 'ink' | 'shapes' | 'text' | 'results';
+
+export interface LayerSettings {
+    visible: boolean;
+    /** Locked layers cannot be drawn on, erased, selected or edited. */
+    locked: boolean;
+    /** From 0 to 1. */
+    opacity: number;
+    /** Whether the layer is sent to the solver with Run. */
+    run: boolean;
+}
+
+export type BoardLayers = Record<LayerId, LayerSettings>;
+
+/** The layers from the bottom of the stack to the top, with their display names. */
+export const LAYERS: { id: LayerId; label: string }[] = [
+    { id: 'shapes', label: 'Shapes' },
+    { id: 'ink', label: 'Ink' },
+    { id: 'text', label: 'Text' },
+    { id: 'results', label: 'Results' },
+];
+
+export const MIN_LAYER_OPACITY = 0.1;
+
+const DEFAULT_LAYER: LayerSettings = { visible: true, locked: false, opacity: 1, run: true };
+
+// Result cards are the solver's own answers, so they are not sent back unless asked for.
+export const DEFAULT_LAYERS: BoardLayers = {
+    ink: DEFAULT_LAYER,
+    shapes: DEFAULT_LAYER,
+    text: DEFAULT_LAYER,
+    results: { ...DEFAULT_LAYER, run: false },
+};
+
+export const layerOf = (object: BoardObject): LayerId => {
+    switch (object.kind) {
+        case 'stroke':
+            return 'ink';
+        case 'shape':
+        case 'graph':
+            return 'shapes';
+        case 'text':
+            return 'text';
+        case 'latex':
+            return 'results';
+    }
+};
+
+/**
+ * Whether the object can be changed: its layer is shown and not locked.
+ */
+export const isEditable = (object: BoardObject, layers: BoardLayers): boolean => {
+    const layer = layers[layerOf(object)];
+    return layer.visible && !layer.locked;
+};
+
+/**
+ * The objects on shown layers, stacked layer by layer and in z-order within each layer.
+ */
+export const visibleObjects = (objects: BoardObject[], layers: BoardLayers): BoardObject[] =>
+    LAYERS.flatMap(({ id }) => (layers[id].visible ? objects.filter((object) => layerOf(object) === id) : []));
+
+/**
+ * The objects on layers that Run sends, stacked like `visibleObjects`.
+ * Hidden layers are still sent when they are included.
+ */
+export const runObjects = (objects: BoardObject[], layers: BoardLayers): BoardObject[] =>
+    LAYERS.flatMap(({ id }) => (layers[id].run ? objects.filter((object) => layerOf(object) === id) : []));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads stored layer settings, falling back to the defaults for anything
+ * missing or malformed.
+ */
+export const parseLayers = (value: unknown): BoardLayers => {
+    const stored: Record<string, unknown> = isRecord(value) ? value : {};
+    const parse = (id: LayerId): LayerSettings => {
+        const entry = stored[id];
+        const layer: Record<string, unknown> = isRecord(entry) ? entry : {};
+        const fallback = DEFAULT_LAYERS[id];
+        const opacity = layer.opacity;
+        return {
+            visible: typeof layer.visible === 'boolean' ? layer.visible : fallback.visible,
+            locked: typeof layer.locked === 'boolean' ? layer.locked : fallback.locked,
+            opacity: typeof opacity === 'number' && Number.isFinite(opacity)
+                ? Math.min(1, Math.max(MIN_LAYER_OPACITY, opacity))
+                : fallback.opacity,
+            run: typeof layer.run === 'boolean' ? layer.run : fallback.run,
+        };
+    };
+    return { ink: parse('ink'), shapes: parse('shapes'), text: parse('text'), results: parse('results') };
+};
@@ -0,0 +1,123 @@
+import { segmentAngle } from '@/lib/board/shapes';
+import { GRID_SIZE } from '@/lib/board/snapping';
+import type { Point, ShapeObject } from '@/lib/board/types';
+import { formatNumber } from '@/lib/math/evaluate';
+
+/**
+ * A label giving one of a shape's dimensions, in board coordinates.
+ */
+export interface Measurement {
+    text: string;
+    /** Center of the label. */
+    at: Point;
+    /** A dashed line the label belongs to, such as a circle's radius. */
+    guide?: [Point, Point];
+}
+
+export const MEASUREMENT_STYLE = { color: '#495057', halo: 'white', fontSize: 12 };
+/** How far past a shape's outline its labels can reach. */
+export const MEASUREMENT_MARGIN = 28;
+const EDGE_OFFSET = 12;
+const ANGLE_OFFSET = 22;
+
+/**
+ * A length in grid squares, to two decimal places.
+ */
+export const formatLength = (pixels: number): string => formatNumber(Math.round((pixels / GRID_SIZE) * 100) / 100);
+
+const formatAngle = (radians: number): string => `${formatNumber(Math.round((radians * 1800) / Math.PI) / 10)}°`;
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+const centroid = (points: Point[]): Point => ({
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+/**
+ * The length of the edge from `a` to `b`, placed beside it on the side away from `inside`.
+ */
+const edgeLabel = (a: Point, b: Point, inside: Point): Measurement => {
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const mid = midpoint(a, b);
+    let nx = length > 0 ? -(b.y - a.y) / length : 0;
+    let ny = length > 0 ? (b.x - a.x) / length : -1;
+    if ((mid.x - inside.x) * nx + (mid.y - inside.y) * ny < 0) {
+        nx = -nx;
+        ny = -ny;
+    }
+    return { text: formatLength(length), at: { x: mid.x + nx * EDGE_OFFSET, y: mid.y + ny * EDGE_OFFSET } };
+};
+
+/**
+ * The length of a lone segment, placed above it.
+ */
+const lineLabel = (a: Point, b: Point): Measurement => edgeLabel(a, b, { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 + 1 });
+
+/**
+ * The interior angle at corner `index` of a closed polygon, placed inside it
+ * along the bisector. Reflex angles of concave polygons are measured too.
+ */
+const cornerAngle = (corners: Point[], index: number): Measurement => {
+    const n = corners.length;
+    const corner = corners[index];
+    // Twice the signed area tells which way round the corners go.
+    const area = corners.reduce((sum, p, i) => {
+        const q = corners[(i + 1) % n];
+        return sum + p.x * q.y - q.x * p.y;
+    }, 0);
+    const toPrevious = segmentAngle(corner, corners[(index - 1 + n) % n]);
+    const toNext = segmentAngle(corner, corners[(index + 1) % n]);
+    const turn = (((toPrevious - toNext) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+    const interior = area >= 0 ? turn : 2 * Math.PI - turn;
+    const bisector = (area >= 0 ? toNext : toPrevious) + interior / 2;
+    return {
+        text: formatAngle(interior),
+        at: { x: corner.x + ANGLE_OFFSET * Math.cos(bisector), y: corner.y + ANGLE_OFFSET * Math.sin(bisector) },
+    };
+};
+
+/**
+ * The labels for a shape's dimensions: side lengths and corner angles of
+ * polygons, width and height of rectangles and ellipses, the radius of
+ * circles and the length of lines. Lengths count grid squares.
+ * `outline` is the shape's (rotated) outline from `shapeOutline`.
+ */
+export const measureShape = (shape: ShapeObject, outline: Point[]): Measurement[] => {
+    switch (shape.shape) {
+        case 'line':
+        case 'arrow': {
+            const [from, to] = outline;
+            return from && to ? [lineLabel(from, to)] : [];
+        }
+        case 'circle': {
+            const { start, end } = shape;
+            const radius = Math.hypot(end.x - start.x, end.y - start.y);
+            const label = edgeLabel(start, end, { x: start.x, y: start.y + 1 });
+            return [{ text: `r = ${formatLength(radius)}`, at: label.at, guide: [start, end] }];
+        }
+        case 'ellipse': {
+            const width = Math.abs(shape.end.x - shape.start.x);
+            const height = Math.abs(shape.end.y - shape.start.y);
+            return [{ text: `${formatLength(width)} × ${formatLength(height)}`, at: centroid(outline.slice(0, -1)) }];
+        }
+        default: {
+            const corners = outline.slice(0, -1);
+            // A polygon being placed has a single edge after its second corner.
+            if (corners.length === 2) return [lineLabel(corners[0], corners[1])];
+            if (corners.length < 3) return [];
+            const inside = centroid(corners);
+            const edge = (i: number) => edgeLabel(corners[i], corners[(i + 1) % corners.length], inside);
+            switch (shape.shape) {
+                case 'rectangle':
+                case 'square':
+                    // Every angle is a right angle and opposite sides match.
+                    return [edge(0), edge(1)];
+                case 'regular-polygon':
+                    return [edge(0), cornerAngle(corners, 0)];
+                default:
+                    return [...corners.map((_, i) => edge(i)), ...corners.map((_, i) => cornerAngle(corners, i))];
+            }
+        }
+    }
+};
@@ -0,0 +1,110 @@
+import type { Bounds } from '@/lib/board/render';
+import type { Point } from '@/lib/board/types';
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+/** Space kept between a card, the expression it answers and other cards. */
+const CARD_GAP = 16;
+/** Distance between the candidate positions tried around an expression. */
+const SEARCH_STEP = 24;
+const SEARCH_RINGS = 8;
+
+/**
+ * Result cards are sized by the browser once typeset; until then this is
+ * close enough to keep new cards from landing on top of each other.
+ */
+export const estimateCardSize = (tex: string): Size => ({
+    width: Math.min(640, 48 + tex.length * 9),
+    height: 84,
+});
+
+export const boundsAt = (position: Point, size: Size): Bounds => ({
+    minX: position.x,
+    minY: position.y,
+    maxX: position.x + size.width,
+    maxY: position.y + size.height,
+});
+
+const overlaps = (a: Bounds, b: Bounds, margin: number) =>
+    a.minX < b.maxX + margin && b.minX < a.maxX + margin && a.minY < b.maxY + margin && b.minY < a.maxY + margin;
+
+const center = (bounds: Bounds): Point => ({
+    x: (bounds.minX + bounds.maxX) / 2,
+    y: (bounds.minY + bounds.maxY) / 2,
+});
+
+/**
+ * Returns the point of `bounds` closest to `point` (the point itself when inside).
+ */
+export const nearestPoint = (bounds: Bounds, point: Point): Point => ({
+    x: Math.min(Math.max(point.x, bounds.minX), bounds.maxX),
+    y: Math.min(Math.max(point.y, bounds.minY), bounds.maxY),
+});
+
+/**
+ * Positions tried for a card, nearest first. Right of the expression is
+ * preferred, then below, left and above, sliding along each side.
+ */
+const candidates = (anchor: Bounds, size: Size): Point[] => {
+    const points: { point: Point; cost: number }[] = [];
+    for (let ring = 0; ring < SEARCH_RINGS; ring++) {
+        const distance = CARD_GAP + ring * SEARCH_STEP;
+        for (let slide = -ring; slide <= ring; slide++) {
+            const shift = slide * SEARCH_STEP;
+            const sides = [
+                { x: anchor.maxX + distance, y: anchor.minY + shift },
+                { x: anchor.minX + shift, y: anchor.maxY + distance },
+                { x: anchor.minX - distance - size.width, y: anchor.minY + shift },
+                { x: anchor.minX + shift, y: anchor.minY - distance - size.height },
+            ];
+            sides.forEach((point, side) => {
+                points.push({ point, cost: ring * 4 + Math.abs(slide) * 2 + side });
+            });
+        }
+    }
+    return points.sort((a, b) => a.cost - b.cost).map(({ point }) => point);
+};
+
+/**
+ * Finds a spot for a card next to `anchor` that does not cover any of
+ * `obstacles`. The board has no edges, so any side will do. Falls back to
+ * the right of the anchor when everything nearby is taken.
+ */
+export const placeCard = (anchor: Bounds, size: Size, obstacles: Bounds[]): Point => {
+    const free = candidates(anchor, size).find((point) =>
+        !obstacles.some((obstacle) => overlaps(boundsAt(point, size), obstacle, CARD_GAP / 2)));
+    return free ?? { x: anchor.maxX + CARD_GAP, y: anchor.minY };
+};
+
+/**
+ * Places several cards in order, each avoiding the ones placed before it.
+ * Returns each card's position and the point of its anchor the leader line
+ * should start from.
+ */
+export const placeCards = (
+    cards: { anchor: Bounds; size: Size }[],
+    obstacles: Bounds[],
+): { position: Point; anchor: Point }[] => {
+    const taken = [...obstacles];
+    return cards.map(({ anchor, size }) => {
+        const position = placeCard(anchor, size, taken);
+        const box = boundsAt(position, size);
+        taken.push(box);
+        return { position, anchor: nearestPoint(anchor, center(box)) };
+    });
+};
+
+export const LEADER_LINE_STYLE = { color: '#868e96', width: 1.5, dash: [4, 3] };
+
+/**
+ * The segment from an expression to its card, ending on the card's edge.
+ * Returns null when the anchor is under the card.
+ */
+export const leaderLine = (anchor: Point, card: Bounds): [Point, Point] | null => {
+    const end = nearestPoint(card, anchor);
+    if (end.x === anchor.x && end.y === anchor.y) return null;
+    return [anchor, end];
+};
@@ -0,0 +1,231 @@
+import { rotatePoint } from '@/lib/board/render';
+import type { Point, ShapeObject } from '@/lib/board/types';
+
+/**
+ * The clean shape a freehand stroke was recognized as: the fields of a
+ * `ShapeObject` that give its outline.
+ */
+export type ShapeFit = Pick<ShapeObject, 'shape' | 'start' | 'end' | 'points' | 'rotation'>;
+
+/** A fit with how well it matches the stroke, from 0 (not at all) to 1 (exactly). */
+type Candidate = ShapeFit & { confidence: number };
+
+/** Fits below this confidence leave the stroke as drawn. */
+export const RECOGNITION_THRESHOLD = 0.6;
+/** Strokes smaller than this (in board pixels) are handwriting, not diagrams. */
+const MIN_SIZE = 24;
+const MIN_POINTS = 5;
+/** A stroke whose ends are closer than this share of its size is closed. */
+const CLOSED_GAP = 0.25;
+/** Corner detection tolerance, as a share of the stroke's size. */
+const CORNER_TOLERANCE = 0.08;
+/** Corners straighter than this are dropped. */
+const MAX_CORNER_ANGLE = (155 * Math.PI) / 180;
+/** How far from 90° the corners of a rectangle may be. */
+const RIGHT_ANGLE_SLACK = (25 * Math.PI) / 180;
+/** Ellipses whose axes differ by less than this share become circles. */
+const CIRCLE_RATIO = 0.85;
+/** Rotations smaller than this are dropped, so nearly level shapes come out level. */
+const MIN_ROTATION = (6 * Math.PI) / 180;
+// Average misfit at which each kind of fit drops to zero confidence: a share
+// of the stroke's size for lines and polygons, and of the radius for ellipses.
+const LINE_SLACK = 0.08;
+const ELLIPSE_SLACK = 0.15;
+const POLYGON_SLACK = 0.06;
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const confidenceOf = (misfit: number, slack: number) => Math.max(0, 1 - misfit / slack);
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+    const length = distance(a, b);
+    if (length === 0) return distance(p, a);
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / (length * length)));
+    return distance(p, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+};
+
+const centroid = (points: Point[]): Point => ({
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+/**
+ * The direction in which the points spread the most, in radians.
+ */
+const principalAngle = (points: Point[], center: Point): number => {
+    let xx = 0;
+    let yy = 0;
+    let xy = 0;
+    points.forEach((p) => {
+        xx += (p.x - center.x) ** 2;
+        yy += (p.y - center.y) ** 2;
+        xy += (p.x - center.x) * (p.y - center.y);
+    });
+    return Math.atan2(2 * xy, xx - yy) / 2;
+};
+
+const boxOf = (points: Point[]) => ({
+    minX: Math.min(...points.map((p) => p.x)),
+    minY: Math.min(...points.map((p) => p.y)),
+    maxX: Math.max(...points.map((p) => p.x)),
+    maxY: Math.max(...points.map((p) => p.y)),
+});
+
+/**
+ * Ramer–Douglas–Peucker simplification of an open path.
+ */
+const simplify = (points: Point[], tolerance: number): Point[] => {
+    if (points.length <= 2) return points;
+    const first = points[0];
+    const last = points[points.length - 1];
+    let farthest = 0;
+    let index = 0;
+    points.forEach((p, i) => {
+        const d = distanceToSegment(p, first, last);
+        if (d > farthest) {
+            farthest = d;
+            index = i;
+        }
+    });
+    if (farthest <= tolerance) return [first, last];
+    return [...simplify(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplify(points.slice(index), tolerance)];
+};
+
+/**
+ * The corners of a closed path: it is split at the point farthest from its
+ * start, each half is simplified, and nearly straight corners are dropped.
+ */
+const closedCorners = (points: Point[], tolerance: number): Point[] => {
+    const first = points[0];
+    const split = points.reduce((best, p, i) => (distance(p, first) > distance(points[best], first) ? i : best), 0);
+    let corners = [
+        ...simplify(points.slice(0, split + 1), tolerance).slice(0, -1),
+        ...simplify([...points.slice(split), first], tolerance).slice(0, -1),
+    ];
+    // Dropping one corner changes its neighbours' angles, so repeat until none is straight.
+    for (;;) {
+        const n = corners.length;
+        if (n <= 3) return corners;
+        const straight = corners.findIndex((corner, i) => cornerAngle(corners[(i - 1 + n) % n], corner, corners[(i + 1) % n]) > MAX_CORNER_ANGLE);
+        if (straight < 0) return corners;
+        corners = corners.filter((_, i) => i !== straight);
+    }
+};
+
+/**
+ * The angle at `corner` between the edges to `previous` and `next`, from 0 to π.
+ */
+const cornerAngle = (previous: Point, corner: Point, next: Point): number => {
+    const a = Math.atan2(previous.y - corner.y, previous.x - corner.x);
+    const b = Math.atan2(next.y - corner.y, next.x - corner.x);
+    const turn = Math.abs(a - b) % (2 * Math.PI);
+    return turn > Math.PI ? 2 * Math.PI - turn : turn;
+};
+
+const polygonMisfit = (points: Point[], corners: Point[]): number =>
+    points.reduce(
+        (sum, p) => sum + Math.min(...corners.map((corner, i) => distanceToSegment(p, corner, corners[(i + 1) % corners.length]))),
+        0,
+    ) / points.length;
+
+/**
+ * A box given by its unrotated corners and rotation, the way rectangles and
+ * ellipses are stored: the points are turned back by `angle` about their
+ * centroid, boxed, and the box's center turned forward again.
+ */
+const rotatedBox = (points: Point[], angle: number) => {
+    const pivot = centroid(points);
+    const rotation = Math.abs(angle) < MIN_ROTATION ? 0 : angle;
+    const box = boxOf(points.map((p) => rotatePoint(p, pivot, -rotation)));
+    const center = rotatePoint({ x: (box.minX + box.maxX) / 2, y: (box.minY + box.maxY) / 2 }, pivot, rotation);
+    const halfWidth = (box.maxX - box.minX) / 2;
+    const halfHeight = (box.maxY - box.minY) / 2;
+    return {
+        center,
+        halfWidth,
+        halfHeight,
+        start: { x: center.x - halfWidth, y: center.y - halfHeight },
+        end: { x: center.x + halfWidth, y: center.y + halfHeight },
+        ...(rotation ? { rotation } : {}),
+    };
+};
+
+const fitLine = (points: Point[], size: number): Candidate => {
+    const center = centroid(points);
+    const angle = principalAngle(points, center);
+    const along = (p: Point) => (p.x - center.x) * Math.cos(angle) + (p.y - center.y) * Math.sin(angle);
+    const across = (p: Point) => -(p.x - center.x) * Math.sin(angle) + (p.y - center.y) * Math.cos(angle);
+    const project = (p: Point): Point => ({
+        x: center.x + along(p) * Math.cos(angle),
+        y: center.y + along(p) * Math.sin(angle),
+    });
+    const misfit = points.reduce((sum, p) => sum + Math.abs(across(p)), 0) / points.length;
+    return {
+        shape: 'line',
+        start: project(points[0]),
+        end: project(points[points.length - 1]),
+        confidence: confidenceOf(misfit / size, LINE_SLACK),
+    };
+};
+
+const fitEllipse = (points: Point[]): Candidate => {
+    const box = rotatedBox(points, principalAngle(points, centroid(points)));
+    const { center, halfWidth, halfHeight, rotation = 0 } = box;
+    // How far each point is off the outline, in radii.
+    const misfit = points.reduce((sum, p) => {
+        const local = rotatePoint(p, center, -rotation);
+        return sum + Math.abs(Math.hypot((local.x - center.x) / halfWidth, (local.y - center.y) / halfHeight) - 1);
+    }, 0) / points.length;
+    const confidence = confidenceOf(misfit, ELLIPSE_SLACK);
+    if (Math.min(halfWidth, halfHeight) / Math.max(halfWidth, halfHeight) >= CIRCLE_RATIO) {
+        const radius = (halfWidth + halfHeight) / 2;
+        return { shape: 'circle', start: center, end: { x: center.x + radius, y: center.y }, confidence };
+    }
+    return { shape: 'ellipse', start: box.start, end: box.end, ...(rotation ? { rotation } : {}), confidence };
+};
+
+const fitPolygon = (points: Point[], size: number): Candidate | null => {
+    const corners = closedCorners(points, size * CORNER_TOLERANCE);
+    const confidence = confidenceOf(polygonMisfit(points, corners) / size, POLYGON_SLACK);
+    if (corners.length === 3) {
+        return { shape: 'polygon', start: corners[0], end: corners[2], points: corners, confidence };
+    }
+    if (corners.length !== 4) return null;
+    const square = corners.every((corner, i) =>
+        Math.abs(cornerAngle(corners[(i + 3) % 4], corner, corners[(i + 1) % 4]) - Math.PI / 2) <= RIGHT_ANGLE_SLACK);
+    if (!square) return null;
+    // Level the rectangle along its edges, averaged over all four as angles modulo 90°.
+    const quarter = Math.PI / 2;
+    const edgeAngles = corners.map((corner, i) => {
+        const next = corners[(i + 1) % 4];
+        return Math.atan2(next.y - corner.y, next.x - corner.x) * 4;
+    });
+    const angle = Math.atan2(
+        edgeAngles.reduce((sum, a) => sum + Math.sin(a), 0),
+        edgeAngles.reduce((sum, a) => sum + Math.cos(a), 0),
+    ) / 4;
+    const box = rotatedBox(corners, ((angle % quarter) + quarter) % quarter > quarter / 2 ? angle - quarter : angle);
+    return { shape: 'rectangle', start: box.start, end: box.end, ...(box.rotation ? { rotation: box.rotation } : {}), confidence };
+};
+
+/**
+ * Fits a freehand stroke to a line, circle, ellipse, rectangle or triangle
+ * (a three-cornered polygon). Returns the best fit, or null when no fit
+ * reaches `threshold` or the stroke is too small to be a diagram.
+ */
+export const recognizeShape = (points: Point[], threshold = RECOGNITION_THRESHOLD): ShapeFit | null => {
+    if (points.length < MIN_POINTS) return null;
+    const box = boxOf(points);
+    const size = Math.hypot(box.maxX - box.minX, box.maxY - box.minY);
+    if (size < MIN_SIZE) return null;
+    const closed = distance(points[0], points[points.length - 1]) <= size * CLOSED_GAP;
+    const candidates = closed
+        ? [fitEllipse(points), fitPolygon(points, size)]
+        : [fitLine(points, size)];
+    const best = candidates
+        .filter((candidate): candidate is Candidate => candidate !== null)
+        .reduce<Candidate | null>((best, candidate) => (!best || candidate.confidence > best.confidence ? candidate : best), null);
+    if (!best) return null;
+    const { confidence, ...fit } = best;
+    return confidence >= threshold ? fit : null;
+};
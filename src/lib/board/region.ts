@@ -0,0 +1,113 @@
+import {
+    getInkBounds,
+    pointInPolygon,
+    renderInk,
+    renderTextItem,
+    TEXT_CONTENT_OFFSET,
+    unionBounds,
+    type Bounds,
+} from '@/lib/board/render';
+import { objectsOfKind, type BoardObject, type Point, type TextItem } from '@/lib/board/types';
+
+export type RegionShape = 'rectangle' | 'lasso';
+
+/**
+ * A part of the board picked by the user, either by dragging a rectangle or
+ * by drawing a freehand lasso around it.
+ */
+export type Region =
+    | { shape: 'rectangle'; start: Point; end: Point }
+    | { shape: 'lasso'; points: Point[] };
+
+const REGION_PADDING = 8;
+const MIN_REGION_SIZE = 4;
+
+/**
+ * Returns the region's outline as a closed polygon (without repeating the first point).
+ */
+export const regionPolygon = (region: Region): Point[] => {
+    if (region.shape === 'lasso') return region.points;
+    const { start, end } = region;
+    return [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }];
+};
+
+export const regionBounds = (region: Region): Bounds => {
+    const polygon = regionPolygon(region);
+    return {
+        minX: Math.min(...polygon.map((p) => p.x)),
+        minY: Math.min(...polygon.map((p) => p.y)),
+        maxX: Math.max(...polygon.map((p) => p.x)),
+        maxY: Math.max(...polygon.map((p) => p.y)),
+    };
+};
+
+/**
+ * Whether the region is big enough to be worth sending to the solver.
+ */
+export const isUsableRegion = (region: Region): boolean => {
+    const bounds = regionBounds(region);
+    return bounds.maxX - bounds.minX >= MIN_REGION_SIZE && bounds.maxY - bounds.minY >= MIN_REGION_SIZE
+        && (region.shape === 'rectangle' || region.points.length >= 3);
+};
+
+export const regionContains = (region: Region, point: Point): boolean => pointInPolygon(regionPolygon(region), point);
+
+/**
+ * Returns the text items whose text starts inside the region.
+ */
+export const textItemsInRegion = (objects: BoardObject[], region: Region): TextItem[] =>
+    objectsOfKind(objects, 'text').filter((item) => regionContains(region, {
+        x: item.position.x + TEXT_CONTENT_OFFSET.x,
+        y: item.position.y + TEXT_CONTENT_OFFSET.y + item.fontSize / 2,
+    }));
+
+/**
+ * The ink inside the region, limited to the region's bounds. Returns null
+ * when the region holds no ink.
+ */
+export const inkBoundsInRegion = (objects: BoardObject[], region: Region): Bounds | null => {
+    const area = regionBounds(region);
+    const ink = unionBounds(objects.map(getInkBounds).filter((bounds) =>
+        bounds && bounds.maxX >= area.minX && bounds.minX <= area.maxX
+        && bounds.maxY >= area.minY && bounds.minY <= area.maxY));
+    return ink && {
+        minX: Math.max(ink.minX, area.minX),
+        minY: Math.max(ink.minY, area.minY),
+        maxX: Math.min(ink.maxX, area.maxX),
+        maxY: Math.min(ink.maxY, area.maxY),
+    };
+};
+
+/**
+ * The board position of the top-left pixel of `rasterizeRegion`'s image.
+ */
+export const regionImageOrigin = (region: Region): Point => {
+    const bounds = regionBounds(region);
+    return { x: bounds.minX - REGION_PADDING, y: bounds.minY - REGION_PADDING };
+};
+
+/**
+ * Renders only what lies inside the region: the ink clipped to its outline and
+ * the text items whose text starts inside it. Returns a PNG data URL.
+ */
+export const rasterizeRegion = (objects: BoardObject[], region: Region): string => {
+    const bounds = regionBounds(region);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(bounds.maxX - bounds.minX) + REGION_PADDING * 2;
+    canvas.height = Math.ceil(bounds.maxY - bounds.minY) + REGION_PADDING * 2;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas.toDataURL('image/png');
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.translate(REGION_PADDING - bounds.minX, REGION_PADDING - bounds.minY);
+    ctx.beginPath();
+    regionPolygon(region).forEach((point, index) => {
+        if (index === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+    });
+    ctx.closePath();
+    ctx.clip();
+    renderInk(ctx, objects);
+    textItemsInRegion(objects, region).forEach((item) => renderTextItem(ctx, item));
+    return canvas.toDataURL('image/png');
+};
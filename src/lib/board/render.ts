@@ -0,0 +1,535 @@
+import { GRAPH_STYLE, layoutGraph } from '@/lib/board/graph';
+import { layerOf, LAYERS, type BoardLayers } from '@/lib/board/layers';
+import { maxStrokeWidth, strokePieces, strokeWidthAt, type StrokePiece } from '@/lib/board/ink';
+import { measureShape, MEASUREMENT_MARGIN, MEASUREMENT_STYLE, type Measurement } from '@/lib/board/measure';
+import {
+    arrowHead,
+    dashPattern,
+    DEFAULT_POLYGON_SIDES,
+    isClosedShape,
+    regularPolygonCorners,
+} from '@/lib/board/shapes';
+import { layoutText, textColor, textFont } from '@/lib/board/text';
+import type { BoardObject, GraphObject, Point, ShapeObject, StrokeObject, TextItem } from '@/lib/board/types';
+
+/**
+ * Adds the path for a shape's outline to the context, in the shape's own
+ * (unrotated) coordinates. The caller is responsible for `beginPath` and
+ * `stroke`; arrow heads are added by `renderShape`.
+ */
+export const drawShape = (ctx: CanvasRenderingContext2D, shape: ShapeObject) => {
+    const { start, end } = shape;
+    switch (shape.shape) {
+        case 'circle': {
+            const radius = Math.hypot(end.x - start.x, end.y - start.y);
+            ctx.arc(start.x, start.y, radius, 0, 2 * Math.PI);
+            break;
+        }
+        case 'ellipse':
+            ctx.ellipse(
+                (start.x + end.x) / 2,
+                (start.y + end.y) / 2,
+                Math.abs(end.x - start.x) / 2,
+                Math.abs(end.y - start.y) / 2,
+                0,
+                0,
+                2 * Math.PI,
+            );
+            break;
+        default: {
+            const outline = unrotatedOutline(shape);
+            if (shape.shape === 'arrow') outline.splice(2);
+            outline.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+            if (isClosedShape(shape.shape)) ctx.closePath();
+            break;
+        }
+    }
+};
+
+/**
+ * Strokes one curve of a stroke in the current stroke style.
+ */
+export const renderStrokePiece = (ctx: CanvasRenderingContext2D, piece: StrokePiece) => {
+    ctx.lineWidth = piece.width;
+    ctx.beginPath();
+    ctx.moveTo(piece.from.x, piece.from.y);
+    ctx.quadraticCurveTo(piece.control.x, piece.control.y, piece.to.x, piece.to.y);
+    ctx.stroke();
+};
+
+export const renderStroke = (ctx: CanvasRenderingContext2D, stroke: StrokeObject) => {
+    if (stroke.points.length === 0) return;
+    ctx.strokeStyle = stroke.color;
+    if (stroke.points.length === 1) {
+        ctx.lineWidth = strokeWidthAt(stroke, 0);
+        ctx.beginPath();
+        ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+        ctx.lineTo(stroke.points[0].x + 0.01, stroke.points[0].y);
+        ctx.stroke();
+        return;
+    }
+    const pieces = strokePieces(stroke);
+    if (stroke.pressures) {
+        // Each curve has its own width; round caps join them seamlessly.
+        pieces.forEach((piece) => renderStrokePiece(ctx, piece));
+        return;
+    }
+    ctx.lineWidth = stroke.width;
+    ctx.beginPath();
+    ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+    pieces.forEach((piece) => ctx.quadraticCurveTo(piece.control.x, piece.control.y, piece.to.x, piece.to.y));
+    ctx.stroke();
+};
+
+export const rotatePoint = (point: Point, center: Point, angle: number): Point => {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const dx = point.x - center.x;
+    const dy = point.y - center.y;
+    return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+/**
+ * The point a shape rotates about: the center of the circle or regular
+ * polygon, or of the unrotated outline's bounding box.
+ */
+export const shapeCenter = (shape: ShapeObject): Point => {
+    if (shape.shape === 'circle' || shape.shape === 'regular-polygon') return shape.start;
+    const outline = unrotatedOutline(shape);
+    const xs = outline.map((p) => p.x);
+    const ys = outline.map((p) => p.y);
+    return { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 };
+};
+
+export const renderShape = (ctx: CanvasRenderingContext2D, shape: ShapeObject) => {
+    ctx.save();
+    ctx.strokeStyle = shape.color;
+    ctx.lineWidth = shape.width;
+    if (shape.rotation) {
+        const center = shapeCenter(shape);
+        ctx.translate(center.x, center.y);
+        ctx.rotate(shape.rotation);
+        ctx.translate(-center.x, -center.y);
+    }
+    ctx.beginPath();
+    drawShape(ctx, shape);
+    if (shape.fill && isClosedShape(shape.shape)) {
+        ctx.fillStyle = shape.fill;
+        ctx.fill();
+    }
+    ctx.setLineDash(dashPattern(shape.dash, shape.width));
+    if (shape.dash === 'dotted') ctx.lineCap = 'round';
+    ctx.stroke();
+    if (shape.shape === 'arrow') {
+        const [left, right] = arrowHead(shape.start, shape.end, shape.width);
+        ctx.setLineDash([]);
+        ctx.fillStyle = shape.color;
+        ctx.beginPath();
+        ctx.moveTo(shape.end.x, shape.end.y);
+        ctx.lineTo(left.x, left.y);
+        ctx.lineTo(right.x, right.y);
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+    }
+    ctx.restore();
+    if (shape.measure) renderMeasurements(ctx, measureShape(shape, shapeOutline(shape)));
+};
+
+/**
+ * Paints dimension labels, with a white halo so they stay readable over ink and grid lines.
+ */
+export const renderMeasurements = (ctx: CanvasRenderingContext2D, measurements: Measurement[]) => {
+    ctx.save();
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = MEASUREMENT_STYLE.color;
+    ctx.setLineDash([4, 3]);
+    measurements.forEach(({ guide }) => {
+        if (!guide) return;
+        ctx.beginPath();
+        ctx.moveTo(guide[0].x, guide[0].y);
+        ctx.lineTo(guide[1].x, guide[1].y);
+        ctx.stroke();
+    });
+    ctx.setLineDash([]);
+    ctx.font = `${MEASUREMENT_STYLE.fontSize}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineWidth = 3;
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = MEASUREMENT_STYLE.halo;
+    ctx.fillStyle = MEASUREMENT_STYLE.color;
+    measurements.forEach(({ text, at }) => {
+        ctx.strokeText(text, at.x, at.y);
+        ctx.fillText(text, at.x, at.y);
+    });
+    ctx.restore();
+};
+
+const strokeSegments = (ctx: CanvasRenderingContext2D, segments: [Point, Point][]) => {
+    ctx.beginPath();
+    segments.forEach(([from, to]) => {
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+    });
+    ctx.stroke();
+};
+
+/**
+ * Paints a graph: its page, grid, axes, tick labels and curves, clipped to its frame.
+ */
+export const renderGraph = (ctx: CanvasRenderingContext2D, graph: GraphObject) => {
+    const { position, width, height } = graph;
+    const layout = layoutGraph(graph);
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.fillStyle = GRAPH_STYLE.background;
+    ctx.fillRect(position.x, position.y, width, height);
+    ctx.beginPath();
+    ctx.rect(position.x, position.y, width, height);
+    ctx.clip();
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = GRAPH_STYLE.grid;
+    strokeSegments(ctx, layout.grid);
+    ctx.strokeStyle = GRAPH_STYLE.axis;
+    strokeSegments(ctx, layout.axes);
+    ctx.fillStyle = GRAPH_STYLE.label;
+    ctx.font = `${GRAPH_STYLE.fontSize}px sans-serif`;
+    layout.labels.forEach((label) => {
+        ctx.textAlign = label.align;
+        ctx.textBaseline = label.baseline;
+        ctx.fillText(label.text, label.at.x, label.at.y);
+    });
+    ctx.lineWidth = GRAPH_STYLE.curveWidth;
+    layout.curves.forEach((curve) => {
+        ctx.strokeStyle = curve.color;
+        ctx.beginPath();
+        curve.paths.forEach((path) =>
+            path.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y))),
+        );
+        ctx.stroke();
+    });
+    ctx.restore();
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = GRAPH_STYLE.frame;
+    ctx.strokeRect(position.x, position.y, width, height);
+    ctx.restore();
+};
+
+/**
+ * Where a text item's content sits relative to its position: the DOM item has a
+ * drag handle above the text and padding around it.
+ */
+export const TEXT_CONTENT_OFFSET: Point = { x: 4, y: 28 };
+
+/**
+ * Paints a text item the way it appears on the board. Inline formulas are
+ * only drawn once `prepareTextMath` has made images of them.
+ */
+export const renderTextItem = (ctx: CanvasRenderingContext2D, item: TextItem) => {
+    const x = item.position.x + TEXT_CONTENT_OFFSET.x;
+    const y = item.position.y + TEXT_CONTENT_OFFSET.y;
+    ctx.save();
+    ctx.textBaseline = 'alphabetic';
+    ctx.textAlign = 'left';
+    ctx.font = textFont(item);
+    ctx.fillStyle = textColor(item);
+    layoutText(item).runs.forEach((run) => {
+        if (run.kind === 'text') {
+            ctx.fillText(run.text, x + run.x, y + run.baseline);
+        } else if (run.image) {
+            ctx.drawImage(run.image, x + run.x, y + run.baseline + run.depth - run.height, run.width, run.height);
+        }
+    });
+    ctx.restore();
+};
+
+/**
+ * Paints the strokes, shapes and graphs of a board in z-order, without clearing first.
+ */
+export const renderInk = (ctx: CanvasRenderingContext2D, objects: BoardObject[]) => {
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    objects.forEach((object) => {
+        if (object.kind === 'stroke') {
+            renderStroke(ctx, object);
+        } else if (object.kind === 'shape') {
+            renderShape(ctx, object);
+        } else if (object.kind === 'graph') {
+            renderGraph(ctx, object);
+        }
+    });
+    ctx.restore();
+};
+
+const GRID_COLOR = '#e9ecef';
+/** Grid lines closer together than this many canvas pixels are not drawn. */
+const MIN_GRID_SPACING = 6;
+
+/**
+ * Maps board coordinates onto canvas pixels: `scale` pixels per board unit,
+ * with the board point (`x`, `y`) at the top-left corner.
+ */
+export interface RenderView {
+    x: number;
+    y: number;
+    scale: number;
+}
+
+export interface BoardRenderOptions {
+    /** Spacing of the snapping grid drawn under the ink; no grid when absent. */
+    gridSize?: number;
+    /** Stacks the ink layer by layer at each layer's opacity; plain z-order when absent. */
+    layers?: BoardLayers;
+}
+
+/**
+ * Redraws the ink (strokes, shapes and graphs) of a board from scratch onto a white page.
+ * Text items and result cards live in the DOM and are not painted here. The
+ * context is left in board coordinates, so live previews can draw on top.
+ */
+export const renderBoard = (
+    ctx: CanvasRenderingContext2D,
+    objects: BoardObject[],
+    view: RenderView = { x: 0, y: 0, scale: 1 },
+    { gridSize, layers }: BoardRenderOptions = {},
+) => {
+    const { width, height } = ctx.canvas;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, width, height);
+    ctx.setTransform(view.scale, 0, 0, view.scale, -view.x * view.scale, -view.y * view.scale);
+    if (gridSize) renderGrid(ctx, view, gridSize);
+    if (!layers) {
+        renderInk(ctx, objects);
+        return;
+    }
+    LAYERS.forEach(({ id }) => {
+        const layerObjects = objects.filter((object) => layerOf(object) === id);
+        if (layerObjects.length === 0) return;
+        if (layers[id].opacity < 1) renderTranslucent(ctx, layerObjects, layers[id].opacity);
+        else renderInk(ctx, layerObjects);
+    });
+};
+
+let layerCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Paints the objects as one translucent sheet, so strokes crossing each other
+ * within a layer do not darken where they overlap.
+ */
+const renderTranslucent = (ctx: CanvasRenderingContext2D, objects: BoardObject[], opacity: number) => {
+    const { width, height } = ctx.canvas;
+    layerCanvas ??= document.createElement('canvas');
+    layerCanvas.width = width;
+    layerCanvas.height = height;
+    const layerCtx = layerCanvas.getContext('2d');
+    if (!layerCtx) return;
+    layerCtx.setTransform(ctx.getTransform());
+    renderInk(layerCtx, objects);
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = opacity;
+    ctx.drawImage(layerCanvas, 0, 0);
+    ctx.restore();
+};
+
+/**
+ * Paints the snapping grid over the visible part of the board. It is left
+ * out once zoomed so far out that the lines would crowd together.
+ */
+const renderGrid = (ctx: CanvasRenderingContext2D, view: RenderView, gridSize: number) => {
+    if (gridSize * view.scale < MIN_GRID_SPACING) return;
+    const right = view.x + ctx.canvas.width / view.scale;
+    const bottom = view.y + ctx.canvas.height / view.scale;
+    ctx.save();
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.lineWidth = 1 / view.scale;
+    ctx.beginPath();
+    for (let x = Math.ceil(view.x / gridSize) * gridSize; x <= right; x += gridSize) {
+        ctx.moveTo(x, view.y);
+        ctx.lineTo(x, bottom);
+    }
+    for (let y = Math.ceil(view.y / gridSize) * gridSize; y <= bottom; y += gridSize) {
+        ctx.moveTo(view.x, y);
+        ctx.lineTo(right, y);
+    }
+    ctx.stroke();
+    ctx.restore();
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/**
+ * Even-odd point-in-polygon test.
+ */
+export const pointInPolygon = (polygon: Point[], point: Point): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > point.y) !== (b.y > point.y)
+            && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/**
+ * Returns the shape's outline as a polyline, closing back on its first point
+ * for closed shapes. An arrow's outline runs along the line and around its head.
+ */
+export const shapeOutline = (shape: ShapeObject): Point[] => {
+    const outline = unrotatedOutline(shape);
+    if (!shape.rotation) return outline;
+    const center = shapeCenter(shape);
+    return outline.map((point) => rotatePoint(point, center, shape.rotation ?? 0));
+};
+
+const unrotatedOutline = (shape: ShapeObject): Point[] => {
+    const { start, end } = shape;
+    const width = end.x - start.x;
+    const height = end.y - start.y;
+    switch (shape.shape) {
+        case 'rectangle':
+            return [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }, start];
+        case 'square': {
+            const size = Math.min(Math.abs(width), Math.abs(height));
+            const sx = width < 0 ? -size : size;
+            const sy = height < 0 ? -size : size;
+            return [start, { x: start.x + sx, y: start.y }, { x: start.x + sx, y: start.y + sy }, { x: start.x, y: start.y + sy }, start];
+        }
+        case 'circle': {
+            const radius = Math.hypot(width, height);
+            return Array.from({ length: 33 }, (_, i) => ({
+                x: start.x + radius * Math.cos((i / 32) * 2 * Math.PI),
+                y: start.y + radius * Math.sin((i / 32) * 2 * Math.PI),
+            }));
+        }
+        case 'triangle':
+            return [start, end, { x: start.x * 2 - end.x, y: end.y }, start];
+        case 'line':
+            return [start, end];
+        case 'arrow': {
+            const [left, right] = arrowHead(start, end, shape.width);
+            return [start, end, left, right, end];
+        }
+        case 'ellipse': {
+            const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+            return Array.from({ length: 33 }, (_, i) => ({
+                x: center.x + (Math.abs(width) / 2) * Math.cos((i / 32) * 2 * Math.PI),
+                y: center.y + (Math.abs(height) / 2) * Math.sin((i / 32) * 2 * Math.PI),
+            }));
+        }
+        case 'regular-polygon': {
+            const corners = regularPolygonCorners(start, end, shape.sides ?? DEFAULT_POLYGON_SIDES);
+            return [...corners, corners[0]];
+        }
+        case 'polygon':
+            return shape.points && shape.points.length > 0 ? [...shape.points, shape.points[0]] : [];
+        default:
+            return [];
+    }
+};
+
+export interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+/**
+ * Returns the area covered by a stroke, shape or graph, or null for DOM-backed
+ * objects whose size is only known once rendered.
+ */
+export const getInkBounds = (object: BoardObject): Bounds | null => {
+    if (object.kind === 'graph') {
+        const { position, width, height } = object;
+        return { minX: position.x, minY: position.y, maxX: position.x + width, maxY: position.y + height };
+    }
+    let path: Point[];
+    if (object.kind === 'stroke') {
+        path = object.points;
+    } else if (object.kind === 'shape') {
+        path = shapeOutline(object);
+    } else {
+        return null;
+    }
+    if (path.length === 0) return null;
+    const half = object.kind === 'stroke'
+        ? maxStrokeWidth(object) / 2
+        : object.width / 2 + (object.measure ? MEASUREMENT_MARGIN : 0);
+    return {
+        minX: Math.min(...path.map((p) => p.x)) - half,
+        minY: Math.min(...path.map((p) => p.y)) - half,
+        maxX: Math.max(...path.map((p) => p.x)) + half,
+        maxY: Math.max(...path.map((p) => p.y)) + half,
+    };
+};
+
+/**
+ * The area covered by a text item's text.
+ */
+export const getTextBounds = (item: TextItem): Bounds => {
+    const { width, height } = layoutText(item);
+    const x = item.position.x + TEXT_CONTENT_OFFSET.x;
+    const y = item.position.y + TEXT_CONTENT_OFFSET.y;
+    return { minX: x, minY: y, maxX: x + width, maxY: y + height };
+};
+
+export const unionBounds = (bounds: (Bounds | null)[]): Bounds | null =>
+    bounds.reduce<Bounds | null>((acc, next) => {
+        if (!next) return acc;
+        if (!acc) return { ...next };
+        return {
+            minX: Math.min(acc.minX, next.minX),
+            minY: Math.min(acc.minY, next.minY),
+            maxX: Math.max(acc.maxX, next.maxX),
+            maxY: Math.max(acc.maxY, next.maxY),
+        };
+    }, null);
+
+/**
+ * Returns true when `point` lies within `radius` of the object's ink.
+ */
+export const hitTest = (object: BoardObject, point: Point, radius: number): boolean => {
+    let path: Point[];
+    let tolerance = radius;
+    if (object.kind === 'stroke') {
+        path = object.points;
+        tolerance += maxStrokeWidth(object) / 2;
+    } else if (object.kind === 'shape') {
+        path = shapeOutline(object);
+        tolerance += object.width / 2;
+        // Filled shapes can be picked anywhere inside.
+        if (object.fill && isClosedShape(object.shape) && pointInPolygon(path, point)) return true;
+    } else if (object.kind === 'graph') {
+        // Only the frame counts, so the eraser can cross a graph without removing it.
+        const { position: { x, y }, width, height } = object;
+        path = [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }, { x, y }];
+    } else {
+        return false;
+    }
+    if (path.length === 1) {
+        return Math.hypot(point.x - path[0].x, point.y - path[0].y) <= tolerance;
+    }
+    for (let i = 1; i < path.length; i++) {
+        if (distanceToSegment(point, path[i - 1], path[i]) <= tolerance) {
+            return true;
+        }
+    }
+    return false;
+};
@@ -0,0 +1,108 @@
+import type { DashStyle, Point, ShapeKind, ShapeObject } from '@/lib/board/types';
+
+/** Shift and angle snapping turn lines, arrows and polygon edges in steps of this angle. */
+const ANGLE_STEP = Math.PI / 12;
+export const DEFAULT_POLYGON_SIDES = 5;
+export const MIN_POLYGON_SIDES = 3;
+export const MAX_POLYGON_SIDES = 12;
+
+/**
+ * Whether the shape encloses an area, so it can be filled.
+ */
+export const isClosedShape = (shape: ShapeKind): boolean => shape !== 'line' && shape !== 'arrow';
+
+/**
+ * The direction of the segment from `from` to `to`, in radians.
+ */
+export const segmentAngle = (from: Point, to: Point): number => Math.atan2(to.y - from.y, to.x - from.x);
+
+/**
+ * Turns `to` about `from` to the nearest multiple of 15°, keeping its
+ * distance. Angles count from `reference` (in radians), e.g. the previous
+ * edge of a polygon, so right angles to a slanted edge are reachable too.
+ */
+export const snapAngle = (from: Point, to: Point, reference = 0): Point => {
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    const turn = segmentAngle(from, to) - reference;
+    const angle = reference + Math.round(turn / ANGLE_STEP) * ANGLE_STEP;
+    return { x: from.x + length * Math.cos(angle), y: from.y + length * Math.sin(angle) };
+};
+
+/**
+ * Where a Shift-drag ends: rectangles and ellipses become squares and
+ * circles, triangles become equilateral, and lines, arrows and polygons
+ * snap to 15° steps.
+ */
+export const constrainEnd = (shape: ShapeKind, start: Point, end: Point): Point => {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    switch (shape) {
+        case 'rectangle':
+        case 'ellipse': {
+            const size = Math.max(Math.abs(dx), Math.abs(dy));
+            return { x: start.x + (dx < 0 ? -size : size), y: start.y + (dy < 0 ? -size : size) };
+        }
+        case 'triangle':
+            return { x: end.x, y: start.y + (dy < 0 ? -1 : 1) * Math.abs(dx) * Math.sqrt(3) };
+        case 'line':
+        case 'arrow':
+        case 'regular-polygon':
+            return snapAngle(start, end);
+        default:
+            return end;
+    }
+};
+
+/**
+ * Corners of a regular polygon centered on `center` with its first corner at `corner`.
+ */
+export const regularPolygonCorners = (center: Point, corner: Point, sides: number): Point[] => {
+    const radius = Math.hypot(corner.x - center.x, corner.y - center.y);
+    const first = Math.atan2(corner.y - center.y, corner.x - center.x);
+    return Array.from({ length: sides }, (_, i) => ({
+        x: center.x + radius * Math.cos(first + (i / sides) * 2 * Math.PI),
+        y: center.y + radius * Math.sin(first + (i / sides) * 2 * Math.PI),
+    }));
+};
+
+/**
+ * The two back corners of an arrow's head at `end`, sized to the line width.
+ */
+export const arrowHead = (start: Point, end: Point, width: number): [Point, Point] => {
+    const size = Math.max(10, width * 3);
+    const angle = Math.atan2(end.y - start.y, end.x - start.x);
+    const corner = (side: number): Point => ({
+        x: end.x - size * Math.cos(angle + side * (Math.PI / 7)),
+        y: end.y - size * Math.sin(angle + side * (Math.PI / 7)),
+    });
+    return [corner(1), corner(-1)];
+};
+
+/**
+ * Canvas and SVG dash pattern for a line of the given width. Dots are
+ * zero-length dashes, so they need round line caps.
+ */
+export const dashPattern = (dash: DashStyle | undefined, width: number): number[] => {
+    switch (dash) {
+        case 'dashed':
+            return [width * 4, width * 3];
+        case 'dotted':
+            return [0, width * 2.5];
+        default:
+            return [];
+    }
+};
+
+/**
+ * Builds a shape's fields from the current drawing style. Fill is dropped for
+ * lines and arrows, and sides only apply to regular polygons.
+ */
+export const shapeStyle = (
+    shape: ShapeKind,
+    style: { fill: string | null; dash: DashStyle; sides: number; measure: boolean },
+): Pick<ShapeObject, 'fill' | 'dash' | 'sides' | 'measure'> => ({
+    ...(style.fill && isClosedShape(shape) ? { fill: style.fill } : {}),
+    ...(style.dash !== 'solid' ? { dash: style.dash } : {}),
+    ...(shape === 'regular-polygon' ? { sides: style.sides } : {}),
+    ...(style.measure ? { measure: true } : {}),
+});
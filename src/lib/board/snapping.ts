@@ -0,0 +1,45 @@
+import type { Point } from '@/lib/board/types';
+
+/** Spacing of the snapping grid in board pixels; measurements count in these squares. */
+export const GRID_SIZE = 20;
+
+const SNAP_STORAGE_KEY = 'mathscribe.snapping';
+
+export interface SnapSettings {
+    /** Corners and ends land on the grid. */
+    grid: boolean;
+    /** Lines, arrows and polygon edges turn in 15° steps without holding Shift. */
+    angle: boolean;
+    /** New shapes keep their measurement labels on the board. */
+    measure: boolean;
+    /** Freehand strokes that look like a line, circle, ellipse, rectangle or triangle become that shape. */
+    recognize: boolean;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = { grid: false, angle: false, measure: false, recognize: false };
+
+export const snapToGrid = (point: Point, size = GRID_SIZE): Point => ({
+    x: Math.round(point.x / size) * size,
+    y: Math.round(point.y / size) * size,
+});
+
+/**
+ * Returns the snapping options chosen last time.
+ */
+export const loadSnapSettings = (): SnapSettings => {
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(SNAP_STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+        return {
+            grid: stored.grid === true,
+            angle: stored.angle === true,
+            measure: stored.measure === true,
+            recognize: stored.recognize === true,
+        };
+    } catch {
+        return DEFAULT_SNAP_SETTINGS;
+    }
+};
+
+export const saveSnapSettings = (settings: SnapSettings) => {
+    window.localStorage.setItem(SNAP_STORAGE_KEY, JSON.stringify(settings));
+};
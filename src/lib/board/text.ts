@@ -0,0 +1,227 @@
+/**
+ * Text items are laid out here once and drawn from the same layout on the
+ * board, in the image sent with Run and in exports, so all three match.
+ */
+
+import type { TextAlign, TextFont, TextItem } from '@/lib/board/types';
+import { typeset, TypesetError, type TypesetMath } from '@/lib/math/typeset';
+
+export const TEXT_FONTS: { value: TextFont; label: string; css: string }[] = [
+    { value: 'sans-serif', label: 'Sans', css: 'sans-serif' },
+    { value: 'serif', label: 'Serif', css: 'serif' },
+    { value: 'monospace', label: 'Mono', css: 'monospace' },
+    { value: 'handwriting', label: 'Hand', css: '"Comic Sans MS", "Segoe Print", cursive' },
+];
+
+export const TEXT_ALIGNS: { value: TextAlign; label: string }[] = [
+    { value: 'left', label: 'Left' },
+    { value: 'center', label: 'Center' },
+    { value: 'right', label: 'Right' },
+];
+
+export const DEFAULT_TEXT_COLOR = 'black';
+export const MIN_FONT_SIZE = 8;
+export const MAX_FONT_SIZE = 72;
+/** Line height as a multiple of the font size. */
+const LINE_HEIGHT = 1.25;
+/** Inline formulas are sized as if the text's x-height were this share of its font size. */
+const EX_PER_EM = 0.5;
+
+export type TextRun = { kind: 'text'; text: string } | { kind: 'math'; tex: string };
+
+/**
+ * Splits a text item's text into lines of plain and `$…$` math runs. A `\$`
+ * is a literal dollar sign, and a `$` without a partner is kept as text.
+ */
+export const parseRichText = (text: string): TextRun[][] =>
+    text.split('\n').map((line) => {
+        const runs: TextRun[] = [];
+        let plain = '';
+        let i = 0;
+        while (i < line.length) {
+            if (line.startsWith('\\$', i)) {
+                plain += '$';
+                i += 2;
+                continue;
+            }
+            const close = line[i] === '$' ? line.indexOf('$', i + 1) : -1;
+            if (close > i + 1) {
+                if (plain) runs.push({ kind: 'text', text: plain });
+                runs.push({ kind: 'math', tex: line.slice(i + 1, close) });
+                plain = '';
+                i = close + 1;
+                continue;
+            }
+            plain += line[i];
+            i += 1;
+        }
+        if (plain) runs.push({ kind: 'text', text: plain });
+        return runs;
+    });
+
+/**
+ * The CSS and canvas font of a text item.
+ */
+export const textFont = (item: TextItem): string => {
+    const family = TEXT_FONTS.find((font) => font.value === item.fontFamily) ?? TEXT_FONTS[0];
+    return `${item.italic ? 'italic ' : ''}${item.bold ? 'bold ' : ''}${item.fontSize}px ${family.css}`;
+};
+
+export const textColor = (item: TextItem): string => item.color ?? DEFAULT_TEXT_COLOR;
+
+/**
+ * A typeset inline formula, sized in ex: `depth` is how far it reaches below the baseline.
+ */
+interface InlineMath {
+    math: TypesetMath;
+    width: number;
+    height: number;
+    depth: number;
+    /** The formula as an image for canvases, keyed by color. */
+    images: Map<string, HTMLImageElement>;
+}
+
+// Formulas that failed to typeset are kept as null, so they are drawn as their source.
+const inlineMath = new Map<string, InlineMath | null>();
+
+const exValue = (value: string | null): number => Number.parseFloat(value ?? '') || 0;
+
+const loadImage = async (markup: string): Promise<HTMLImageElement> => {
+    const image = new Image();
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+    await image.decode();
+    return image;
+};
+
+/**
+ * Typesets the inline formulas of the given text items, and turns them into
+ * images in each item's color, so they can be drawn onto a canvas. Formulas
+ * that cannot be typeset are drawn as their source.
+ */
+export const prepareTextMath = async (items: TextItem[]): Promise<void> => {
+    await Promise.all(items.flatMap((item) =>
+        parseRichText(item.text).flat().map(async (run) => {
+            if (run.kind !== 'math') return;
+            if (!inlineMath.has(run.tex)) {
+                try {
+                    const math = await typeset(run.tex);
+                    inlineMath.set(run.tex, {
+                        math,
+                        width: exValue(math.svg.getAttribute('width')),
+                        height: exValue(math.svg.getAttribute('height')),
+                        depth: -exValue(/vertical-align:\s*([-\d.]+)ex/.exec(math.svg.getAttribute('style') ?? '')?.[1] ?? null),
+                        images: new Map(),
+                    });
+                } catch (error) {
+                    // A formula the bundle rejects will not typeset later either; anything else may.
+                    if (error instanceof TypesetError) inlineMath.set(run.tex, null);
+                    else console.error('Typeset Error:', error);
+                    return;
+                }
+            }
+            const entry = inlineMath.get(run.tex);
+            const color = textColor(item);
+            if (!entry || entry.images.has(color)) return;
+            try {
+                // MathJax paints in currentColor, which an image takes from its root element.
+                entry.images.set(color, await loadImage(entry.math.markup.replace('<svg', `<svg color="${color}"`)));
+            } catch (error) {
+                console.error('Typeset Error:', error);
+            }
+        })));
+};
+
+/**
+ * Whether every formula in the item has been typeset (or has failed to).
+ */
+export const isTextMathReady = (item: TextItem): boolean =>
+    parseRichText(item.text).flat().every((run) => run.kind !== 'math' || inlineMath.has(run.tex));
+
+/**
+ * A run placed in a text layout, relative to the top-left corner of the text.
+ */
+export type PlacedRun = { x: number; baseline: number; width: number } & (
+    | { kind: 'text'; text: string }
+    | { kind: 'math'; tex: string; height: number; depth: number; math: TypesetMath; image?: HTMLImageElement }
+);
+
+export interface TextLayout {
+    width: number;
+    height: number;
+    runs: PlacedRun[];
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const getMeasureContext = (): CanvasRenderingContext2D | null => {
+    measureContext ??= document.createElement('canvas').getContext('2d');
+    return measureContext;
+};
+
+/**
+ * Lays a text item out line by line, the way CSS lays out inline content: each
+ * line is as tall as its line height, or taller where a formula sticks out,
+ * and lines are aligned within the widest one. Formulas not typeset yet are
+ * laid out as their `$…$` source.
+ */
+export const layoutText = (item: TextItem): TextLayout => {
+    const ctx = getMeasureContext();
+    const font = textFont(item);
+    if (ctx) ctx.font = font;
+    const measure = (text: string) => ctx?.measureText(text).width ?? text.length * item.fontSize * 0.6;
+    const metrics = ctx?.measureText('');
+    const ascent = metrics?.fontBoundingBoxAscent ?? item.fontSize * 0.8;
+    const descent = metrics?.fontBoundingBoxDescent ?? item.fontSize * 0.2;
+    const lineHeight = item.fontSize * LINE_HEIGHT;
+    const leading = (lineHeight - ascent - descent) / 2;
+    const ex = item.fontSize * EX_PER_EM;
+    const color = textColor(item);
+
+    const runs: PlacedRun[] = [];
+    const lines: { runs: PlacedRun[]; width: number }[] = [];
+    let top = 0;
+    parseRichText(item.text).forEach((line) => {
+        let above = ascent + leading;
+        let below = descent + leading;
+        let x = 0;
+        const placed = line.map((run): PlacedRun => {
+            const entry = run.kind === 'math' ? inlineMath.get(run.tex) : undefined;
+            if (run.kind === 'math' && entry) {
+                const height = entry.height * ex;
+                const depth = entry.depth * ex;
+                above = Math.max(above, height - depth);
+                below = Math.max(below, depth);
+                const width = entry.width * ex;
+                const placedMath: PlacedRun = {
+                    kind: 'math',
+                    tex: run.tex,
+                    x,
+                    baseline: 0,
+                    width,
+                    height,
+                    depth,
+                    math: entry.math,
+                    image: entry.images.get(color),
+                };
+                x += width;
+                return placedMath;
+            }
+            const text = run.kind === 'math' ? `$${run.tex}$` : run.text;
+            const width = measure(text);
+            const placedText: PlacedRun = { kind: 'text', text, x, baseline: 0, width };
+            x += width;
+            return placedText;
+        });
+        placed.forEach((run) => {
+            run.baseline = top + above;
+        });
+        top += above + below;
+        lines.push({ runs: placed, width: x });
+    });
+    const width = Math.max(0, ...lines.map((line) => line.width));
+    lines.forEach((line) => {
+        const shift = item.align === 'center' ? (width - line.width) / 2 : item.align === 'right' ? width - line.width : 0;
+        line.runs.forEach((run) => runs.push({ ...run, x: run.x + shift }));
+    });
+    return { width, height: top, runs };
+};
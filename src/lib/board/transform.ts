@@ -0,0 +1,234 @@
+import { editObject, moveObjects, type Command } from '@/lib/board/commands';
+import { isInsideGraph, MIN_GRAPH_SIZE } from '@/lib/board/graph';
+import { getInkBounds, hitTest, rotatePoint, shapeCenter, unionBounds, type Bounds } from '@/lib/board/render';
+import type { BoardObject, GraphObject, Point, ShapeObject, StrokeObject } from '@/lib/board/types';
+
+/** Objects the Select tool works on; text items and cards are dragged directly. */
+export type InkObject = StrokeObject | ShapeObject | GraphObject;
+
+export type HandleId = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'rotate';
+
+export type SelectionTransform =
+    | { kind: 'move'; dx: number; dy: number }
+    | { kind: 'scale'; pivot: Point; sx: number; sy: number }
+    | { kind: 'rotate'; pivot: Point; angle: number };
+
+/** Distance of the rotate handle above the selection. */
+const ROTATE_HANDLE_OFFSET = 24;
+const MIN_SIZE = 1;
+const ROTATION_SNAP = Math.PI / 12;
+
+export const isInkObject = (object: BoardObject): object is InkObject =>
+    object.kind === 'stroke' || object.kind === 'shape' || object.kind === 'graph';
+
+const isAt = (object: InkObject, point: Point, radius: number): boolean =>
+    hitTest(object, point, radius) || (object.kind === 'graph' && isInsideGraph(object, point));
+
+/**
+ * Returns the top-most stroke or shape near `point`, or graph under it.
+ */
+export const objectAt = (objects: BoardObject[], point: Point, radius: number): InkObject | null =>
+    [...objects].reverse().find((object): object is InkObject => isInkObject(object) && isAt(object, point, radius))
+    ?? null;
+
+/**
+ * Returns the ids of the strokes, shapes and graphs lying entirely inside `area`.
+ */
+export const objectsInArea = (objects: BoardObject[], area: Bounds): string[] =>
+    objects
+        .filter(isInkObject)
+        .filter((object) => {
+            const bounds = getInkBounds(object);
+            return bounds !== null && bounds.minX >= area.minX && bounds.maxX <= area.maxX
+                && bounds.minY >= area.minY && bounds.maxY <= area.maxY;
+        })
+        .map((object) => object.id);
+
+export const selectionBounds = (objects: BoardObject[], ids: string[]): Bounds | null => {
+    const idSet = new Set(ids);
+    return unionBounds(objects.filter((object) => idSet.has(object.id)).map(getInkBounds));
+};
+
+export const handlePositions = (bounds: Bounds): Record<HandleId, Point> => {
+    const midX = (bounds.minX + bounds.maxX) / 2;
+    const midY = (bounds.minY + bounds.maxY) / 2;
+    return {
+        nw: { x: bounds.minX, y: bounds.minY },
+        n: { x: midX, y: bounds.minY },
+        ne: { x: bounds.maxX, y: bounds.minY },
+        e: { x: bounds.maxX, y: midY },
+        se: { x: bounds.maxX, y: bounds.maxY },
+        s: { x: midX, y: bounds.maxY },
+        sw: { x: bounds.minX, y: bounds.maxY },
+        w: { x: bounds.minX, y: midY },
+        rotate: { x: midX, y: bounds.minY - ROTATE_HANDLE_OFFSET },
+    };
+};
+
+export const handleAt = (bounds: Bounds, point: Point, tolerance: number): HandleId | null => {
+    const handles = Object.entries(handlePositions(bounds)) as [HandleId, Point][];
+    return handles.find(([, position]) => Math.hypot(point.x - position.x, point.y - position.y) <= tolerance)?.[0] ?? null;
+};
+
+const nonZero = (value: number) => (Math.abs(value) < MIN_SIZE ? (value < 0 ? -MIN_SIZE : MIN_SIZE) : value);
+
+/**
+ * Works out the transform for dragging `handle` (or the selection body, for a
+ * move) from `from` to `to`. With `constrain`, corner handles scale
+ * uniformly and rotation snaps to 15° steps.
+ */
+export const dragTransform = (
+    handle: HandleId | 'move',
+    bounds: Bounds,
+    from: Point,
+    to: Point,
+    constrain = false,
+): SelectionTransform => {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    if (handle === 'move') {
+        return { kind: 'move', dx, dy };
+    }
+    const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+    if (handle === 'rotate') {
+        let angle = Math.atan2(to.y - center.y, to.x - center.x) - Math.atan2(from.y - center.y, from.x - center.x);
+        if (constrain) angle = Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP;
+        return { kind: 'rotate', pivot: center, angle };
+    }
+    // Scale about the opposite edge or corner.
+    const width = Math.max(bounds.maxX - bounds.minX, MIN_SIZE);
+    const height = Math.max(bounds.maxY - bounds.minY, MIN_SIZE);
+    const east = handle.includes('e');
+    const west = handle.includes('w');
+    const north = handle.includes('n');
+    const south = handle.includes('s');
+    const pivot = {
+        x: east ? bounds.minX : west ? bounds.maxX : center.x,
+        y: south ? bounds.minY : north ? bounds.maxY : center.y,
+    };
+    let sx = east ? nonZero(width + dx) / width : west ? nonZero(width - dx) / width : 1;
+    let sy = south ? nonZero(height + dy) / height : north ? nonZero(height - dy) / height : 1;
+    if (constrain && (east || west) && (north || south)) {
+        const scale = Math.max(Math.abs(sx), Math.abs(sy));
+        sx = Math.sign(sx) * scale;
+        sy = Math.sign(sy) * scale;
+    }
+    return { kind: 'scale', pivot, sx, sy };
+};
+
+const mapPoint = (point: Point, transform: SelectionTransform): Point => {
+    switch (transform.kind) {
+        case 'move':
+            return { x: point.x + transform.dx, y: point.y + transform.dy };
+        case 'scale':
+            return {
+                x: transform.pivot.x + (point.x - transform.pivot.x) * transform.sx,
+                y: transform.pivot.y + (point.y - transform.pivot.y) * transform.sy,
+            };
+        case 'rotate':
+            return rotatePoint(point, transform.pivot, transform.angle);
+        default:
+            return point;
+    }
+};
+
+/**
+ * Transforms a shape without changing its kind: the center follows the
+ * transform and the outline is scaled along the shape's own axes. Circles
+ * and regular polygons stay regular, scaled by the mean of the two factors.
+ */
+const transformShape = (shape: ShapeObject, transform: SelectionTransform): Partial<ShapeObject> => {
+    if (transform.kind === 'move') {
+        return {
+            start: mapPoint(shape.start, transform),
+            end: mapPoint(shape.end, transform),
+            ...(shape.points ? { points: shape.points.map((point) => mapPoint(point, transform)) } : {}),
+        };
+    }
+    const center = shapeCenter(shape);
+    const nextCenter = mapPoint(center, transform);
+    const rotation = shape.rotation ?? 0;
+    let sx = 1;
+    let sy = 1;
+    if (transform.kind === 'scale') {
+        // A shape turned closer to 90° than 0° has its own axes swapped relative to the page.
+        const swapped = Math.abs(Math.sin(rotation)) > Math.abs(Math.cos(rotation));
+        sx = swapped ? transform.sy : transform.sx;
+        sy = swapped ? transform.sx : transform.sy;
+        if (shape.shape === 'circle' || shape.shape === 'regular-polygon') {
+            sx = (Math.abs(sx) + Math.abs(sy)) / 2;
+            sy = sx;
+        }
+    }
+    const local = (point: Point): Point => ({
+        x: nextCenter.x + (point.x - center.x) * sx,
+        y: nextCenter.y + (point.y - center.y) * sy,
+    });
+    return {
+        start: local(shape.start),
+        end: local(shape.end),
+        ...(shape.points ? { points: shape.points.map(local) } : {}),
+        ...(transform.kind === 'rotate' && shape.shape !== 'circle' ? { rotation: rotation + transform.angle } : {}),
+    };
+};
+
+/**
+ * Moves and resizes a graph's frame; its range stays put, so scaling stretches
+ * the axes. Graphs stay upright, so rotating only moves them about the pivot.
+ */
+const transformGraph = (graph: GraphObject, transform: SelectionTransform): Partial<GraphObject> => {
+    const { position, width, height } = graph;
+    if (transform.kind === 'rotate') {
+        const center = mapPoint({ x: position.x + width / 2, y: position.y + height / 2 }, transform);
+        return { position: { x: center.x - width / 2, y: center.y - height / 2 } };
+    }
+    const a = mapPoint(position, transform);
+    const b = mapPoint({ x: position.x + width, y: position.y + height }, transform);
+    return {
+        position: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+        width: Math.max(Math.abs(b.x - a.x), MIN_GRAPH_SIZE),
+        height: Math.max(Math.abs(b.y - a.y), MIN_GRAPH_SIZE),
+    };
+};
+
+/**
+ * The fields of `object` that change under `transform`.
+ */
+const transformPatch = (object: InkObject, transform: SelectionTransform): Partial<InkObject> => {
+    switch (object.kind) {
+        case 'stroke':
+            return { points: object.points.map((point) => mapPoint(point, transform)) };
+        case 'shape':
+            return transformShape(object, transform);
+        default:
+            return transformGraph(object, transform);
+    }
+};
+
+/**
+ * Applies a transform to the given objects, e.g. to preview a drag.
+ */
+export const transformObjects = (objects: BoardObject[], ids: string[], transform: SelectionTransform): BoardObject[] => {
+    const idSet = new Set(ids);
+    return objects.map((object) =>
+        idSet.has(object.id) && isInkObject(object)
+            ? ({ ...object, ...transformPatch(object, transform) } as BoardObject)
+            : object,
+    );
+};
+
+/**
+ * Builds the undoable command for a finished drag.
+ */
+export const transformCommand = (objects: BoardObject[], ids: string[], transform: SelectionTransform): Command => {
+    if (transform.kind === 'move') {
+        return moveObjects(ids, transform.dx, transform.dy);
+    }
+    const idSet = new Set(ids);
+    return {
+        type: 'batch',
+        commands: objects
+            .filter((object): object is InkObject => idSet.has(object.id) && isInkObject(object))
+            .map((object) => editObject(object, transformPatch(object, transform))),
+    };
+};
@@ -0,0 +1,141 @@
+import type { SolutionStep } from '@/lib/api/solver';
+import type { Verification } from '@/lib/math/verify';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export type ShapeKind =
+    | 'rectangle'
+    | 'square'
+    | 'circle'
+    | 'triangle'
+    | 'line'
+    | 'arrow'
+    | 'ellipse'
+    | 'regular-polygon'
+    | 'polygon';
+
+export type DashStyle = 'solid' | 'dashed' | 'dotted';
+
+export interface StrokeObject {
+    kind: 'stroke';
+    id: string;
+    points: Point[];
+    /** Pen pressure (0–1) at each point; absent for mouse and touch strokes. */
+    pressures?: number[];
+    color: string;
+    width: number;
+}
+
+export interface ShapeObject {
+    kind: 'shape';
+    id: string;
+    shape: ShapeKind;
+    start: Point;
+    end: Point;
+    color: string;
+    width: number;
+    /** Fill color of closed shapes; unfilled when absent. */
+    fill?: string;
+    /** Outline style; solid when absent. */
+    dash?: DashStyle;
+    /** Number of corners of a regular polygon. */
+    sides?: number;
+    /** Corners of a free polygon, in the order they were placed. */
+    points?: Point[];
+    /** Clockwise rotation in radians about the shape's center. */
+    rotation?: number;
+    /** Whether side lengths, radius and angles are drawn beside the shape. */
+    measure?: boolean;
+}
+
+/**
+ * The part of the plane a graph shows, in graph units.
+ */
+export interface GraphRange {
+    xMin: number;
+    xMax: number;
+    yMin: number;
+    yMax: number;
+}
+
+export interface GraphFunction {
+    /** Right-hand side of `y = …` in terms of `x`, e.g. `x^2 - 3`. */
+    expr: string;
+    color: string;
+}
+
+export interface GraphObject {
+    kind: 'graph';
+    id: string;
+    /** Top-left corner of the plot area. */
+    position: Point;
+    width: number;
+    height: number;
+    range: GraphRange;
+    grid: boolean;
+    /** Whether the axes carry numbers at each tick. */
+    labels: boolean;
+    functions: GraphFunction[];
+}
+
+export type TextFont = 'sans-serif' | 'serif' | 'monospace' | 'handwriting';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextItem {
+    kind: 'text';
+    id: string;
+    position: Point;
+    /** Lines separated by `\n`; `$…$` marks inline TeX and `\$` a literal dollar sign. */
+    text: string;
+    fontSize: number;
+    /** CSS color; black when absent. */
+    color?: string;
+    bold?: boolean;
+    italic?: boolean;
+    /** Sans-serif when absent. */
+    fontFamily?: TextFont;
+    /** How lines of different lengths line up; left when absent. */
+    align?: TextAlign;
+}
+
+export interface LatexExpression {
+    kind: 'latex';
+    id: string;
+    text: string;
+    position: Point;
+    /** The solver's expression and answer the card was made from. */
+    expr?: string;
+    result?: string;
+    verification?: Verification;
+    /** The point of the solved expression the card's leader line starts from. */
+    anchor?: Point;
+    /** The solver's working, shown as collapsible rows under the answer. */
+    steps?: SolutionStep[];
+}
+
+export type BoardObject = StrokeObject | ShapeObject | GraphObject | TextItem | LatexExpression;
+
+export type BoardObjectKind = BoardObject['kind'];
+
+/**
+ * Narrows the board's object list to a single kind, keeping z-order.
+ */
+export const objectsOfKind = <K extends BoardObjectKind>(
+    objects: BoardObject[],
+    kind: K,
+): Extract<BoardObject, { kind: K }>[] =>
+    objects.filter((object): object is Extract<BoardObject, { kind: K }> => object.kind === kind);
+
+let idCounter = 0;
+
+/**
+ * Returns an id that is unique for the lifetime of the page.
+ */
+export const createId = (): string => {
+    idCounter += 1;
+    return `${Date.now().toString(36)}-${idCounter.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
@@ -0,0 +1,81 @@
+import { useCallback, useReducer } from 'react';
+
+import { applyCommand, invertCommand, type Command } from '@/lib/board/commands';
+import type { BoardObject } from '@/lib/board/types';
+
+interface BoardState {
+    objects: BoardObject[];
+    past: Command[];
+    future: Command[];
+}
+
+type BoardAction =
+    | { type: 'execute'; command: Command }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'load'; objects: BoardObject[] }
+    | { type: 'sync'; objects: BoardObject[] };
+
+const initialState: BoardState = { objects: [], past: [], future: [] };
+
+const boardReducer = (state: BoardState, action: BoardAction): BoardState => {
+    switch (action.type) {
+        case 'execute':
+            return {
+                objects: applyCommand(state.objects, action.command),
+                past: [...state.past, action.command],
+                future: [],
+            };
+        case 'undo': {
+            const command = state.past[state.past.length - 1];
+            if (!command) return state;
+            return {
+                objects: applyCommand(state.objects, invertCommand(command)),
+                past: state.past.slice(0, -1),
+                future: [...state.future, command],
+            };
+        }
+        case 'redo': {
+            const command = state.future[state.future.length - 1];
+            if (!command) return state;
+            return {
+                objects: applyCommand(state.objects, command),
+                past: [...state.past, command],
+                future: state.future.slice(0, -1),
+            };
+        }
+        case 'load':
+            return { objects: action.objects, past: [], future: [] };
+        case 'sync':
+            // Changes made by someone else: the local history stays, and undo
+            // only reverts this client's own commands.
+            return { ...state, objects: action.objects };
+        default:
+            return state;
+    }
+};
+
+/**
+ * Holds the board's objects and an unbounded, command-based undo/redo history.
+ * Every change to the board must go through `execute` so it can be undone.
+ */
+export const useBoard = () => {
+    const [state, dispatch] = useReducer(boardReducer, initialState);
+
+    const execute = useCallback((command: Command) => dispatch({ type: 'execute', command }), []);
+    const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+    const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+    const load = useCallback((objects: BoardObject[]) => dispatch({ type: 'load', objects }), []);
+    const sync = useCallback((objects: BoardObject[]) => dispatch({ type: 'sync', objects }), []);
+
+    return {
+        objects: state.objects,
+        canUndo: state.past.length > 0,
+        canRedo: state.future.length > 0,
+        execute,
+        undo,
+        redo,
+        load,
+        sync,
+    };
+};
@@ -0,0 +1,123 @@
+import type { GeneratedResult } from '@/lib/api/solver';
+
+/**
+ * Where a variable's current value came from.
+ */
+export interface VariableInfo {
+    source: 'run' | 'manual';
+    /** The run that produced the value, for `source: 'run'`. */
+    runId?: string;
+    updatedAt: string;
+    /** Pinned variables keep their value when later runs assign them. */
+    pinned?: boolean;
+    /** Set when a later run replaced (or, if pinned, tried to replace) the value. */
+    overwritten?: {
+        previous: string;
+        next: string;
+        runId: string;
+        at: string;
+    };
+}
+
+/**
+ * The board's variables: `values` is the `dict_of_vars` sent with every run,
+ * `info` records how each value got there.
+ */
+export interface VariableState {
+    values: { [key: string]: string };
+    info: { [key: string]: VariableInfo };
+}
+
+export interface RunReference {
+    id: string;
+    at: string;
+}
+
+export const EMPTY_VARIABLES: VariableState = { values: {}, info: {} };
+
+/**
+ * Builds variable state from a plain `dict_of_vars`, e.g. when opening an
+ * older board that has no provenance recorded.
+ */
+export const fromValues = (
+    values: { [key: string]: string },
+    info: { [key: string]: VariableInfo } = {},
+): VariableState => {
+    const now = new Date().toISOString();
+    return {
+        values,
+        info: Object.fromEntries(
+            Object.keys(values).map((name) => [name, info[name] ?? { source: 'manual', updatedAt: now }]),
+        ),
+    };
+};
+
+/**
+ * Records the results of a run. Every result is stored under its `expr`, as
+ * the solver expects; pinned variables keep their value and are flagged instead.
+ */
+export const applyRun = (state: VariableState, results: GeneratedResult[], run: RunReference): VariableState => {
+    const values = { ...state.values };
+    const info = { ...state.info };
+    results.forEach(({ expr, result }) => {
+        const existing = info[expr];
+        const previous = values[expr];
+        const changed = previous !== undefined && previous !== result;
+        const overwritten = changed ? { previous, next: result, runId: run.id, at: run.at } : existing?.overwritten;
+        if (existing?.pinned) {
+            info[expr] = { ...existing, overwritten };
+            return;
+        }
+        values[expr] = result;
+        info[expr] = { source: 'run', runId: run.id, updatedAt: run.at, overwritten };
+    });
+    return { values, info };
+};
+
+/**
+ * Adds or edits a variable by hand.
+ */
+export const setVariable = (state: VariableState, name: string, value: string): VariableState => ({
+    values: { ...state.values, [name]: value },
+    info: {
+        ...state.info,
+        [name]: { source: 'manual', updatedAt: new Date().toISOString(), pinned: state.info[name]?.pinned },
+    },
+});
+
+export const renameVariable = (state: VariableState, from: string, to: string): VariableState => {
+    if (from === to || !(from in state.values)) return state;
+    const { [from]: value, ...values } = state.values;
+    const { [from]: info, ...rest } = state.info;
+    return { values: { ...values, [to]: value }, info: { ...rest, [to]: { ...info, source: 'manual' } } };
+};
+
+export const deleteVariable = (state: VariableState, name: string): VariableState => {
+    const values = { ...state.values };
+    const info = { ...state.info };
+    delete values[name];
+    delete info[name];
+    return { values, info };
+};
+
+export const togglePin = (state: VariableState, name: string): VariableState => ({
+    ...state,
+    info: { ...state.info, [name]: { ...state.info[name], pinned: !state.info[name]?.pinned } },
+});
+
+/**
+ * Clears the overwrite flag once the user has seen it.
+ */
+export const dismissOverwrite = (state: VariableState, name: string): VariableState => ({
+    ...state,
+    info: { ...state.info, [name]: { ...state.info[name], overwritten: undefined } },
+});
+
+/**
+ * Puts back the value a run replaced.
+ */
+export const revertOverwrite = (state: VariableState, name: string): VariableState => {
+    const previous = state.info[name]?.overwritten?.previous;
+    if (previous === undefined) return state;
+    return dismissOverwrite(setVariable(state, name, previous), name);
+};
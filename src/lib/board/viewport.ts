@@ -0,0 +1,88 @@
+import type { Bounds } from '@/lib/board/render';
+import type { Point } from '@/lib/board/types';
+
+/**
+ * Which part of the board is on screen: `x`, `y` is the board point at the
+ * top-left corner of the canvas and `zoom` the number of CSS pixels per board
+ * unit. Board coordinates are what objects are stored in.
+ */
+export interface Viewport {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+const FIT_PADDING = 48;
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const toBoard = (viewport: Viewport, screen: Point): Point => ({
+    x: viewport.x + screen.x / viewport.zoom,
+    y: viewport.y + screen.y / viewport.zoom,
+});
+
+export const toScreen = (viewport: Viewport, board: Point): Point => ({
+    x: (board.x - viewport.x) * viewport.zoom,
+    y: (board.y - viewport.y) * viewport.zoom,
+});
+
+/**
+ * Moves the view by a distance in screen pixels, e.g. from a drag or wheel.
+ */
+export const panBy = (viewport: Viewport, dx: number, dy: number): Viewport => ({
+    ...viewport,
+    x: viewport.x - dx / viewport.zoom,
+    y: viewport.y - dy / viewport.zoom,
+});
+
+/**
+ * Zooms by `factor`, keeping the board point under `screen` where it is.
+ */
+export const zoomAt = (viewport: Viewport, screen: Point, factor: number): Viewport => {
+    const zoom = clampZoom(viewport.zoom * factor);
+    const anchor = toBoard(viewport, screen);
+    return { x: anchor.x - screen.x / zoom, y: anchor.y - screen.y / zoom, zoom };
+};
+
+/**
+ * The board area visible in a canvas of the given CSS size.
+ */
+export const visibleBounds = (viewport: Viewport, width: number, height: number): Bounds => ({
+    minX: viewport.x,
+    minY: viewport.y,
+    maxX: viewport.x + width / viewport.zoom,
+    maxY: viewport.y + height / viewport.zoom,
+});
+
+/**
+ * Centers the view on `center` without changing the zoom.
+ */
+export const centerOn = (viewport: Viewport, center: Point, width: number, height: number): Viewport => ({
+    ...viewport,
+    x: center.x - width / viewport.zoom / 2,
+    y: center.y - height / viewport.zoom / 2,
+});
+
+/**
+ * The view that shows all of `bounds` in a canvas of the given CSS size.
+ * Content is never magnified past 100%, so a single stroke is not blown up.
+ */
+export const fitBounds = (bounds: Bounds, width: number, height: number): Viewport => {
+    const contentWidth = Math.max(bounds.maxX - bounds.minX, 1);
+    const contentHeight = Math.max(bounds.maxY - bounds.minY, 1);
+    const zoom = clampZoom(Math.min(
+        1,
+        (width - FIT_PADDING * 2) / contentWidth,
+        (height - FIT_PADDING * 2) / contentHeight,
+    ));
+    return centerOn(
+        { x: 0, y: 0, zoom },
+        { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 },
+        width,
+        height,
+    );
+};
@@ -0,0 +1,128 @@
+import * as Y from 'yjs';
+import { isBoardObject } from '@/lib/board/document';
+import type { BoardObject } from '@/lib/board/types';
+import type { VariableInfo, VariableState } from '@/lib/board/variables';
+
+/**
+ * The parts of a Yjs document that hold a board. Objects are keyed by id, so
+ * concurrent edits to different objects merge and edits to the same object
+ * resolve last-writer-wins; `order` holds their z-order separately.
+ */
+export interface SharedBoard {
+    objects: Y.Map<BoardObject>;
+    order: Y.Array<string>;
+    variables: Y.Map<SharedVariable>;
+}
+
+interface SharedVariable {
+    value: string;
+    info?: VariableInfo;
+}
+
+export const getSharedBoard = (doc: Y.Doc): SharedBoard => ({
+    objects: doc.getMap<BoardObject>('objects'),
+    order: doc.getArray<string>('order'),
+    variables: doc.getMap<SharedVariable>('variables'),
+});
+
+/**
+ * The board's objects in z-order. Ids that two participants inserted at once
+ * are kept once, and objects missing from `order` go on top. Any peer can
+ * write to the document, so objects that are not valid board objects, or
+ * whose id does not match their key, are left out.
+ */
+export const readObjects = (shared: SharedBoard): BoardObject[] => {
+    const seen = new Set<string>();
+    const objects: BoardObject[] = [];
+    const take = (id: string) => {
+        const object: unknown = shared.objects.get(id);
+        if (!isBoardObject(object) || object.id !== id || seen.has(id)) return;
+        seen.add(id);
+        objects.push(object);
+    };
+    shared.order.forEach(take);
+    [...shared.objects.keys()].forEach(take);
+    return objects;
+};
+
+const removeFromOrder = (order: Y.Array<string>, ids: Set<string>) => {
+    const current = order.toArray();
+    for (let index = current.length - 1; index >= 0; index--) {
+        if (ids.has(current[index])) order.delete(index, 1);
+    }
+};
+
+/**
+ * Records the local change from `previous` to `next`. Only objects whose
+ * reference changed are written, and ids this client has not seen yet (added
+ * concurrently elsewhere) keep their place in the z-order. Call inside a
+ * transaction.
+ */
+export const writeObjects = (shared: SharedBoard, previous: BoardObject[], next: BoardObject[]) => {
+    const before = new Map(previous.map((object) => [object.id, object]));
+    const nextIds = new Set(next.map((object) => object.id));
+    next.forEach((object) => {
+        if (before.get(object.id) !== object) shared.objects.set(object.id, object);
+    });
+    const removed = new Set(previous.filter((object) => !nextIds.has(object.id)).map((object) => object.id));
+    removed.forEach((id) => shared.objects.delete(id));
+
+    // Keep the ids whose relative order is unchanged and re-insert the rest, each after its predecessor in `next`.
+    const positions = new Map(shared.order.toArray().map((id, index) => [id, index]));
+    const misplaced = new Set<string>();
+    let last = -1;
+    next.forEach(({ id }) => {
+        const position = positions.get(id);
+        if (position === undefined || position < last) {
+            misplaced.add(id);
+        } else {
+            last = position;
+        }
+    });
+    removeFromOrder(shared.order, new Set([...removed, ...misplaced]));
+    next.forEach(({ id }, index) => {
+        if (!misplaced.has(id)) return;
+        const predecessor = index > 0 ? shared.order.toArray().lastIndexOf(next[index - 1].id) : -1;
+        shared.order.insert(predecessor + 1, [id]);
+    });
+};
+
+export const readVariables = (shared: SharedBoard): VariableState => {
+    const state: VariableState = { values: {}, info: {} };
+    shared.variables.forEach((variable, name) => {
+        state.values[name] = variable.value;
+        if (variable.info) state.info[name] = variable.info;
+    });
+    return state;
+};
+
+/**
+ * Records the local change from `previous` to `next` variable by variable.
+ * Call inside a transaction.
+ */
+export const writeVariables = (shared: SharedBoard, previous: VariableState, next: VariableState) => {
+    Object.entries(next.values).forEach(([name, value]) => {
+        if (previous.values[name] !== value || previous.info[name] !== next.info[name]) {
+            shared.variables.set(name, { value, info: next.info[name] });
+        }
+    });
+    Object.keys(previous.values)
+        .filter((name) => !(name in next.values))
+        .forEach((name) => shared.variables.delete(name));
+};
+
+/**
+ * Adds whatever only this client has, e.g. the board someone starts a
+ * session from, without overwriting what the others already share.
+ */
+export const mergeIntoShared = (shared: SharedBoard, objects: BoardObject[], variables: VariableState) => {
+    objects
+        .filter((object) => !shared.objects.has(object.id))
+        .forEach((object) => {
+            shared.objects.set(object.id, object);
+            shared.order.push([object.id]);
+        });
+    Object.entries(variables.values)
+        .filter(([name]) => !shared.variables.has(name))
+        .forEach(([name, value]) => shared.variables.set(name, { value, info: variables.info[name] }));
+};
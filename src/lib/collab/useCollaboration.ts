@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { WebsocketProvider } from 'y-websocket';
+import * as Y from 'yjs';
+import type { BoardObject, Point } from '@/lib/board/types';
+import type { VariableState } from '@/lib/board/variables';
+import {
+    getSharedBoard,
+    mergeIntoShared,
+    readObjects,
+    readVariables,
+    writeObjects,
+    writeVariables,
+} from '@/lib/collab/shared-board';
+
+export type CollabStatus = 'off' | 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Another participant, as announced over awareness.
+ */
+export interface Peer {
+    clientId: number;
+    name: string;
+    color: string;
+    /** Board position of their pointer, or null when it is off the canvas. */
+    cursor: Point | null;
+    solving: boolean;
+}
+
+interface PresenceState {
+    user?: { name: string; color: string };
+    cursor?: Point | null;
+    solving?: boolean;
+}
+
+const COLLAB_URL = import.meta.env.VITE_COLLAB_URL || 'ws://localhost:8901';
+const USER_NAME_STORAGE_KEY = 'mathscribe.collabName';
+/** Cursor updates are sent at most this often, so moving the pointer does not flood the relay. */
+const CURSOR_INTERVAL_MS = 50;
+const PEER_COLORS = ['#e03131', '#1971c2', '#2f9e44', '#f08c00', '#9c36b5', '#0c8599', '#d6336c', '#5f3dc4'];
+/** Marks changes this client made, so its own updates are not read back. */
+const LOCAL_ORIGIN = Symbol('local');
+
+export const loadUserName = (): string =>
+    window.localStorage.getItem(USER_NAME_STORAGE_KEY) || `Guest ${Math.floor(100 + Math.random() * 900)}`;
+
+export const saveUserName = (name: string) => {
+    window.localStorage.setItem(USER_NAME_STORAGE_KEY, name);
+};
+
+interface CollaborationOptions {
+    /** The room to join, or null to work alone. */
+    room: string | null;
+    userName: string;
+    objects: BoardObject[];
+    variables: VariableState;
+    /** Called with the whole board after another participant changed it. */
+    onRemoteObjects: (objects: BoardObject[]) => void;
+    onRemoteVariables: (variables: VariableState) => void;
+}
+
+/**
+ * Shares the board's objects and variables with everyone in `room` through a
+ * Yjs document synced by the collaboration relay, and tracks who else is
+ * there. Local changes are picked up from `objects` and `variables` as they
+ * change, so the rest of the board does not need to know about the session.
+ */
+export const useCollaboration = ({
+    room,
+    userName,
+    objects,
+    variables,
+    onRemoteObjects,
+    onRemoteVariables,
+}: CollaborationOptions) => {
+    const [status, setStatus] = useState<CollabStatus>('off');
+    const [peers, setPeers] = useState<Peer[]>([]);
+    const docRef = useRef<Y.Doc | null>(null);
+    const providerRef = useRef<WebsocketProvider | null>(null);
+    // What the shared document last held, as seen by this client; null until the first sync.
+    const syncedObjectsRef = useRef<BoardObject[] | null>(null);
+    const syncedVariablesRef = useRef<VariableState | null>(null);
+    const lastCursorAtRef = useRef(0);
+    // The latest values, for handlers registered once per session.
+    const latestRef = useRef({ userName, objects, variables, onRemoteObjects, onRemoteVariables });
+    latestRef.current = { userName, objects, variables, onRemoteObjects, onRemoteVariables };
+
+    /**
+     * Writes any local change not yet in the shared document.
+     */
+    const flush = useCallback(() => {
+        const doc = docRef.current;
+        const syncedObjects = syncedObjectsRef.current;
+        const syncedVariables = syncedVariablesRef.current;
+        if (!doc || !syncedObjects || !syncedVariables) return;
+        const { objects: localObjects, variables: localVariables } = latestRef.current;
+        if (localObjects === syncedObjects && localVariables === syncedVariables) return;
+        const shared = getSharedBoard(doc);
+        doc.transact(() => {
+            if (localObjects !== syncedObjects) writeObjects(shared, syncedObjects, localObjects);
+            if (localVariables !== syncedVariables) writeVariables(shared, syncedVariables, localVariables);
+        }, LOCAL_ORIGIN);
+        syncedObjectsRef.current = localObjects;
+        syncedVariablesRef.current = localVariables;
+    }, []);
+
+    useEffect(() => {
+        if (!room) {
+            setStatus('off');
+            return;
+        }
+        const doc = new Y.Doc();
+        const shared = getSharedBoard(doc);
+        const provider = new WebsocketProvider(COLLAB_URL, room, doc);
+        docRef.current = doc;
+        providerRef.current = provider;
+        const { awareness } = provider;
+        awareness.setLocalState({
+            user: { name: latestRef.current.userName, color: PEER_COLORS[doc.clientID % PEER_COLORS.length] },
+            cursor: null,
+            solving: false,
+        } satisfies PresenceState);
+
+        const pull = () => {
+            const remoteObjects = readObjects(shared);
+            const remoteVariables = readVariables(shared);
+            syncedObjectsRef.current = remoteObjects;
+            syncedVariablesRef.current = remoteVariables;
+            // The board takes these on its next render. Until then, a second remote
+            // update must not see the older local values as changes to write back.
+            latestRef.current.objects = remoteObjects;
+            latestRef.current.variables = remoteVariables;
+            latestRef.current.onRemoteObjects(remoteObjects);
+            latestRef.current.onRemoteVariables(remoteVariables);
+        };
+        const handleUpdate = (_update: Uint8Array, origin: unknown) => {
+            if (origin === LOCAL_ORIGIN || !syncedObjectsRef.current) return;
+            // Keep local changes that have not been written yet from being replaced.
+            flush();
+            pull();
+        };
+        const handleSync = (isSynced: boolean) => {
+            if (!isSynced || syncedObjectsRef.current) return;
+            // Joining: share what only this client has, then take the merged board.
+            doc.transact(() => {
+                mergeIntoShared(shared, latestRef.current.objects, latestRef.current.variables);
+            }, LOCAL_ORIGIN);
+            pull();
+        };
+        const handleStatus = ({ status: next }: { status: 'connected' | 'connecting' | 'disconnected' }) => {
+            setStatus(next);
+        };
+        const handleAwareness = () => {
+            const others: Peer[] = [];
+            awareness.getStates().forEach((state: PresenceState, clientId) => {
+                if (clientId === doc.clientID || !state.user) return;
+                others.push({
+                    clientId,
+                    name: state.user.name,
+                    color: state.user.color,
+                    cursor: state.cursor ?? null,
+                    solving: state.solving ?? false,
+                });
+            });
+            setPeers(others);
+        };
+
+        setStatus('connecting');
+        doc.on('update', handleUpdate);
+        provider.on('sync', handleSync);
+        provider.on('status', handleStatus);
+        awareness.on('change', handleAwareness);
+        return () => {
+            awareness.off('change', handleAwareness);
+            provider.off('status', handleStatus);
+            provider.off('sync', handleSync);
+            doc.off('update', handleUpdate);
+            provider.destroy();
+            doc.destroy();
+            docRef.current = null;
+            providerRef.current = null;
+            syncedObjectsRef.current = null;
+            syncedVariablesRef.current = null;
+            setPeers([]);
+        };
+    }, [room, flush]);
+
+    // Announce a changed name without rejoining.
+    useEffect(() => {
+        const awareness = providerRef.current?.awareness;
+        const user = (awareness?.getLocalState() as PresenceState | null)?.user;
+        if (awareness && user) awareness.setLocalStateField('user', { ...user, name: userName });
+    }, [userName]);
+
+    useEffect(() => {
+        flush();
+    }, [objects, variables, flush]);
+
+    const setCursor = useCallback((cursor: Point | null) => {
+        const awareness = providerRef.current?.awareness;
+        if (!awareness) return;
+        const now = performance.now();
+        if (cursor && now - lastCursorAtRef.current < CURSOR_INTERVAL_MS) return;
+        lastCursorAtRef.current = now;
+        awareness.setLocalStateField('cursor', cursor);
+    }, []);
+
+    const setSolving = useCallback((solving: boolean) => {
+        providerRef.current?.awareness.setLocalStateField('solving', solving);
+    }, []);
+
+    return { status, peers, setCursor, setSolving };
+};
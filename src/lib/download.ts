@@ -0,0 +1,21 @@
+/**
+ * Saves a blob through a temporary download link.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Turns a board name into something safe to use as a file name.
+ */
+export const toFileName = (name: string, extension: string): string => {
+    const base = name.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'board';
+    return `${base}${extension}`;
+};
@@ -0,0 +1,298 @@
+export class EvaluationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EvaluationError';
+    }
+}
+
+type Token =
+    | { type: 'number'; value: number }
+    | { type: 'identifier'; value: string }
+    | { type: 'operator'; value: string }
+    | { type: 'paren'; value: '(' | ')' }
+    | { type: 'comma' };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    sqrt: Math.sqrt,
+    abs: Math.abs,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    asin: Math.asin,
+    acos: Math.acos,
+    atan: Math.atan,
+    exp: Math.exp,
+    ln: Math.log,
+    log: Math.log10,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    round: Math.round,
+    min: Math.min,
+    max: Math.max,
+};
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    π: Math.PI,
+    e: Math.E,
+};
+
+/**
+ * Whether `name` is one of `record`'s own keys. Names come from user input, so
+ * inherited members such as `toString` or `constructor` must not count.
+ */
+export const hasName = (record: object, name: string): boolean => Object.prototype.hasOwnProperty.call(record, name);
+
+/**
+ * Normalizes the symbols people (and the solver) write by hand into the
+ * ASCII operators the parser understands.
+ */
+const normalize = (source: string) =>
+    source
+        .replace(/[×·∙]/g, '*')
+        .replace(/÷/g, '/')
+        .replace(/[−–]/g, '-')
+        .replace(/\*\*/g, '^')
+        .replace(/√/g, 'sqrt');
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    const text = normalize(source);
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (/[0-9.]/.test(char)) {
+            const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(text.slice(i));
+            if (!match) throw new EvaluationError(`Unexpected "${char}"`);
+            tokens.push({ type: 'number', value: Number(match[0]) });
+            i += match[0].length;
+        } else if (/[A-Za-zπ_]/.test(char)) {
+            const match = /^[A-Za-zπ_][A-Za-z0-9_]*/.exec(text.slice(i))!;
+            tokens.push({ type: 'identifier', value: match[0] });
+            i += match[0].length;
+        } else if ('+-*/^%!'.includes(char)) {
+            tokens.push({ type: 'operator', value: char });
+            i++;
+        } else if (char === '(' || char === ')') {
+            tokens.push({ type: 'paren', value: char });
+            i++;
+        } else if (char === ',') {
+            tokens.push({ type: 'comma' });
+            i++;
+        } else {
+            throw new EvaluationError(`Unexpected "${char}"`);
+        }
+    }
+    return tokens;
+};
+
+const factorial = (n: number): number => {
+    if (!Number.isInteger(n) || n < 0) throw new EvaluationError('Factorial needs a non-negative integer');
+    let result = 1;
+    for (let k = 2; k <= n; k++) result *= k;
+    return result;
+};
+
+/**
+ * Recursive-descent evaluator. Grammar, loosest binding first:
+ *
+ *     sum     := product (('+' | '-') product)*
+ *     product := unary (('*' | '/' | '%' | implicit) unary)*
+ *     unary   := ('+' | '-') unary | power
+ *     power   := postfix ('^' unary)?
+ *     postfix := primary '!'*
+ *     primary := number | identifier | identifier '(' args ')' | '(' sum ')'
+ */
+class Parser {
+    private position = 0;
+
+    constructor(
+        private readonly tokens: Token[],
+        private readonly variables: Record<string, number>,
+    ) {}
+
+    parse(): number {
+        if (this.tokens.length === 0) throw new EvaluationError('Empty expression');
+        const value = this.sum();
+        if (this.position < this.tokens.length) throw new EvaluationError('Unexpected input after expression');
+        return value;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.position];
+    }
+
+    private isOperator(...values: string[]): boolean {
+        const token = this.peek();
+        return token?.type === 'operator' && values.includes(token.value);
+    }
+
+    private sum(): number {
+        let value = this.product();
+        while (this.isOperator('+', '-')) {
+            const operator = (this.tokens[this.position++] as { value: string }).value;
+            const right = this.product();
+            value = operator === '+' ? value + right : value - right;
+        }
+        return value;
+    }
+
+    private startsPrimary(): boolean {
+        const token = this.peek();
+        return token?.type === 'number' || token?.type === 'identifier' || (token?.type === 'paren' && token.value === '(');
+    }
+
+    private product(): number {
+        let value = this.unary();
+        for (;;) {
+            if (this.isOperator('*', '/', '%')) {
+                const operator = (this.tokens[this.position++] as { value: string }).value;
+                const right = this.unary();
+                if (operator === '*') value *= right;
+                else if (operator === '/') value /= right;
+                else value %= right;
+            } else if (this.startsPrimary()) {
+                // Implicit multiplication: "2x", "3(x + 1)", "(a)(b)".
+                value *= this.unary();
+            } else {
+                return value;
+            }
+        }
+    }
+
+    private unary(): number {
+        if (this.isOperator('-')) {
+            this.position++;
+            return -this.unary();
+        }
+        if (this.isOperator('+')) {
+            this.position++;
+            return this.unary();
+        }
+        return this.power();
+    }
+
+    private power(): number {
+        const base = this.postfix();
+        if (this.isOperator('^')) {
+            this.position++;
+            return base ** this.unary();
+        }
+        return base;
+    }
+
+    private postfix(): number {
+        let value = this.primary();
+        while (this.isOperator('!')) {
+            this.position++;
+            value = factorial(value);
+        }
+        return value;
+    }
+
+    private expectParen(value: '(' | ')') {
+        const token = this.peek();
+        if (token?.type !== 'paren' || token.value !== value) {
+            throw new EvaluationError(`Expected "${value}"`);
+        }
+        this.position++;
+    }
+
+    private primary(): number {
+        const token = this.peek();
+        if (!token) throw new EvaluationError('Unexpected end of expression');
+        if (token.type === 'number') {
+            this.position++;
+            return token.value;
+        }
+        if (token.type === 'paren' && token.value === '(') {
+            this.position++;
+            const value = this.sum();
+            this.expectParen(')');
+            return value;
+        }
+        if (token.type === 'identifier') {
+            this.position++;
+            const next = this.peek();
+            if (hasName(FUNCTIONS, token.value) && next?.type === 'paren' && next.value === '(') {
+                this.position++;
+                const args = [this.sum()];
+                while (this.peek()?.type === 'comma') {
+                    this.position++;
+                    args.push(this.sum());
+                }
+                this.expectParen(')');
+                return FUNCTIONS[token.value](...args);
+            }
+            if (hasName(this.variables, token.value)) return this.variables[token.value];
+            if (hasName(CONSTANTS, token.value)) return CONSTANTS[token.value];
+            throw new EvaluationError(`Unknown variable "${token.value}"`);
+        }
+        throw new EvaluationError('Unexpected token');
+    }
+}
+
+/**
+ * Lists the variable names an expression refers to, leaving out function
+ * names and built-in constants.
+ *
+ * @throws EvaluationError when the expression contains characters it cannot read.
+ */
+export const freeVariables = (source: string): string[] => {
+    const tokens = tokenize(source);
+    const names = new Set<string>();
+    tokens.forEach((token, index) => {
+        if (token.type !== 'identifier') return;
+        const next = tokens[index + 1];
+        const isCall = hasName(FUNCTIONS, token.value) && next?.type === 'paren' && next.value === '(';
+        if (!isCall && !hasName(CONSTANTS, token.value)) {
+            names.add(token.value);
+        }
+    });
+    return [...names];
+};
+
+/**
+ * Turns the string values of `dictOfVars` into numbers, skipping any that are
+ * not plain numbers.
+ */
+export const numericVariables = (variables: { [key: string]: string }): Record<string, number> => {
+    const result: Record<string, number> = {};
+    Object.entries(variables).forEach(([name, value]) => {
+        const parsed = Number(value.trim());
+        if (value.trim() !== '' && Number.isFinite(parsed)) {
+            result[name] = parsed;
+        }
+    });
+    return result;
+};
+
+/**
+ * Evaluates an arithmetic expression such as `2x^2 + sqrt(9)`.
+ *
+ * @throws EvaluationError when the expression cannot be parsed or uses unknown names.
+ */
+export const evaluateExpression = (source: string, variables: Record<string, number> = {}): number =>
+    new Parser(tokenize(source), variables).parse();
+
+/**
+ * Parses an expression once for evaluating it many times, e.g. at every
+ * point of a plot.
+ *
+ * @throws EvaluationError when the expression contains characters it cannot read.
+ */
+export const compileExpression = (source: string): ((variables: Record<string, number>) => number) => {
+    const tokens = tokenize(source);
+    return (variables) => new Parser(tokens, variables).parse();
+};
+
+/**
+ * Formats a computed value the way it would be written on the board.
+ */
+export const formatNumber = (value: number): string => {
+    if (!Number.isFinite(value)) return String(value);
+    if (Number.isInteger(value)) return String(value);
+    return String(Number(value.toPrecision(10)));
+};
@@ -0,0 +1,202 @@
+/**
+ * Typesets TeX with the MathJax 3 bundle shipped in `node_modules/mathjax`, so
+ * result cards render offline. The bundle is only loaded the first time math
+ * is typeset.
+ */
+
+/**
+ * TeX longer than this is not typeset; solver answers are never this long.
+ */
+export const MAX_TEX_LENGTH = 2000;
+
+/**
+ * TeX packages that can reach outside the formula: links, CSS classes and
+ * styles, loading more extensions, and user-defined macros.
+ */
+const UNSAFE_PACKAGES = ['html', 'require', 'autoload', 'bbox', 'unicode', 'newcommand', 'setoptions'];
+
+/**
+ * Commands from those packages. They are rejected up front as well, so a
+ * configuration mistake cannot let them through.
+ */
+const UNSAFE_COMMANDS = /\\(href|url|class|cssId|style|data|require|bbox|unicode|def|let|newcommand|renewcommand|newenvironment|setOptions)(?![A-Za-z])/;
+
+/**
+ * Function names that are math, not prose, when they appear as bare words.
+ */
+const FUNCTION_NAMES = new Set([
+    'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan',
+    'sinh', 'cosh', 'tanh', 'ln', 'log', 'exp', 'lim', 'max', 'min', 'det', 'gcd',
+]);
+
+export class TypesetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TypesetError';
+    }
+}
+
+/**
+ * A typeset formula: `svg` is a detached element to clone into the page,
+ * `markup` the same SVG as text, for export and copying.
+ */
+export interface TypesetMath {
+    tex: string;
+    svg: SVGSVGElement;
+    markup: string;
+    mathml: string;
+}
+
+export interface TypesetOptions {
+    display?: boolean;
+}
+
+interface MathJaxApi {
+    startup: { promise: Promise<void> };
+    tex2svgPromise: (tex: string, options: { display: boolean }) => Promise<HTMLElement>;
+    tex2mmlPromise: (tex: string, options: { display: boolean }) => Promise<string>;
+    texReset: () => void;
+}
+
+type MathJaxWindow = Window & { MathJax?: unknown };
+
+let mathJaxPromise: Promise<MathJaxApi> | null = null;
+const cache = new Map<string, Promise<TypesetMath>>();
+
+const loadMathJax = (): Promise<MathJaxApi> => {
+    if (!mathJaxPromise) {
+        // The bundle reads its configuration from `window.MathJax` when it loads.
+        (window as MathJaxWindow).MathJax = {
+            tex: { packages: { '[-]': UNSAFE_PACKAGES } },
+            svg: { fontCache: 'none' },
+            options: { enableMenu: false },
+            startup: { typeset: false },
+        };
+        mathJaxPromise = import('mathjax/es5/tex-svg-full.js')
+            .then(async () => {
+                const api = (window as MathJaxWindow).MathJax as MathJaxApi;
+                await api.startup.promise;
+                return api;
+            })
+            .catch((error) => {
+                mathJaxPromise = null;
+                throw error;
+            });
+    }
+    return mathJaxPromise;
+};
+
+const stripDelimiters = (text: string) =>
+    text
+        .trim()
+        .replace(/^\$\$([\s\S]*)\$\$$/, '$1')
+        .replace(/^\$([\s\S]*)\$$/, '$1')
+        .replace(/^\\\(([\s\S]*)\\\)$/, '$1')
+        .replace(/^\\\[([\s\S]*)\\\]$/, '$1')
+        .trim();
+
+/**
+ * Control characters other than tab and newline; TeX has no use for them.
+ */
+const isControlCharacter = (char: string) => {
+    const code = char.charCodeAt(0);
+    return (code <= 0x1f && code !== 0x09 && code !== 0x0a) || code === 0x7f;
+};
+
+/**
+ * Cleans TeX from an untrusted source: drops math delimiters and control
+ * characters, and rejects input that is too long or uses unsafe commands.
+ *
+ * @throws TypesetError when the input cannot be typeset safely.
+ */
+export const sanitizeTex = (source: string): string => {
+    const text = Array.from(source).filter((char) => !isControlCharacter(char)).join('').trim();
+    if (text.length > MAX_TEX_LENGTH) {
+        throw new TypesetError('The formula is too long to typeset');
+    }
+    const unsafe = UNSAFE_COMMANDS.exec(text);
+    if (unsafe) {
+        throw new TypesetError(`\\${unsafe[1]} is not allowed in formulas`);
+    }
+    return stripDelimiters(text);
+};
+
+/**
+ * Turns a solver answer into TeX. Answers may be TeX already, plain
+ * arithmetic such as `x**2 * 3`, or contain words ("x = 2 or x = -2"), which
+ * are set upright instead of as a product of variables. Unsafe input is left
+ * for `typeset` to reject.
+ */
+export const toTex = (source: string): string =>
+    stripDelimiters(source)
+        .replace(/\*\*/g, '^')
+        .replace(/(^|[^\\])\*/g, '$1\\cdot ')
+        .replace(/<=/g, '\\le ')
+        .replace(/>=/g, '\\ge ')
+        .replace(/!=/g, '\\ne ')
+        .replace(/(^|[\s(])([A-Za-z]{2,}(?:\s+[A-Za-z]{2,})*)(?=$|[\s.,:;!?)])/g, (match, before, words: string) =>
+            FUNCTION_NAMES.has(words) ? match : `${before}\\text{ ${words} }`,
+        );
+
+/**
+ * The TeX shown on a result card: `expr = result`, or `expr ⇒ result` when
+ * the expression is itself an equation.
+ */
+export const resultToTex = (expr: string, result: string): string => {
+    const left = toTex(expr);
+    const right = toTex(result);
+    return left.includes('=') ? `${left} \\quad\\Rightarrow\\quad ${right}` : `${left} = ${right}`;
+};
+
+/**
+ * Typesets `tex` as SVG and MathML. Results are cached per formula.
+ *
+ * @throws TypesetError when the TeX does not parse.
+ */
+export const typeset = (tex: string, options: TypesetOptions = {}): Promise<TypesetMath> => {
+    const display = options.display ?? false;
+    const key = `${display ? 'display' : 'inline'}:${tex}`;
+    let entry = cache.get(key);
+    if (!entry) {
+        entry = (async () => {
+            const source = sanitizeTex(tex);
+            const mathJax = await loadMathJax();
+            mathJax.texReset();
+            const container = await mathJax.tex2svgPromise(source, { display });
+            const error = container.querySelector('[data-mjx-error]');
+            if (error) {
+                throw new TypesetError(error.getAttribute('data-mjx-error') ?? 'The formula could not be typeset');
+            }
+            const svg = container.querySelector('svg');
+            if (!svg) {
+                throw new TypesetError('The formula could not be typeset');
+            }
+            svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+            return {
+                tex: source,
+                svg,
+                markup: new XMLSerializer().serializeToString(svg),
+                mathml: await mathJax.tex2mmlPromise(source, { display }),
+            };
+        })();
+        // Do not keep failures around; the bundle may load on a later attempt.
+        entry.catch(() => cache.delete(key));
+        cache.set(key, entry);
+    }
+    return entry;
+};
+
+/**
+ * A formula's MathML as an element, for screen readers, which speak it as
+ * math instead of reading out TeX. It is parsed in a detached document, so
+ * nothing in it runs.
+ *
+ * @throws TypesetError when the MathML has no `<math>` element.
+ */
+export const mathmlElement = (math: TypesetMath): Element => {
+    const element = new DOMParser().parseFromString(math.mathml, 'text/html').body.querySelector('math');
+    if (!element) {
+        throw new TypesetError('The formula has no MathML');
+    }
+    return document.importNode(element, true);
+};
@@ -0,0 +1,231 @@
+import type { GeneratedResult } from '@/lib/api/solver';
+import { EvaluationError, evaluateExpression, formatNumber, freeVariables, hasName } from '@/lib/math/evaluate';
+
+export type VerificationStatus = 'verified' | 'mismatch' | 'unchecked';
+
+/**
+ * The outcome of checking one solver result locally.
+ */
+export interface Verification {
+    status: VerificationStatus;
+    /** What the local evaluator computed, when it got that far. */
+    computed?: string;
+    /** Why the result could not be checked, or how it differs. */
+    note?: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const SAMPLE_POINTS = 6;
+
+/**
+ * Rewrites the LaTeX commands the solver tends to return into plain
+ * arithmetic, e.g. `\frac{1}{2}\cdot x^{2}` becomes `((1)/(2))*x^(2)`.
+ */
+export const latexToPlain = (source: string): string => {
+    let text = source
+        .replace(/\\text\{([^{}]*)\}/g, '$1')
+        .replace(/\\left|\\right/g, '')
+        .replace(/\\cdot|\\times/g, '*')
+        .replace(/\\div/g, '/')
+        .replace(/\\pi/g, 'pi')
+        .replace(/\\(sin|cos|tan|ln|log|exp)\b/g, '$1')
+        .replace(/\\,|\\;|\\!|\\ /g, ' ')
+        .replace(/\$/g, '');
+    // Innermost first, so nested fractions and roots unwrap correctly.
+    for (let previous = ''; previous !== text;) {
+        previous = text;
+        text = text
+            .replace(/\\[dt]?frac\{([^{}]*)\}\{([^{}]*)\}/g, '(($1)/($2))')
+            .replace(/\\sqrt\[([^\]]*)\]\{([^{}]*)\}/g, '(($2)^(1/($1)))')
+            .replace(/\\sqrt\{([^{}]*)\}/g, 'sqrt($1)');
+    }
+    return text.replace(/\{/g, '(').replace(/\}/g, ')');
+};
+
+const decimalPlaces = (text: string): number | null => {
+    const match = /^\s*-?\d*\.(\d+)\s*$/.exec(text);
+    return match ? match[1].length : null;
+};
+
+/**
+ * Compares a computed value against the solver's, accepting answers that were
+ * rounded to the number of decimals they are written with.
+ */
+const closeEnough = (computed: number, claimed: number, claimedText: string): boolean => {
+    if (!Number.isFinite(computed) || !Number.isFinite(claimed)) return computed === claimed;
+    const difference = Math.abs(computed - claimed);
+    if (difference <= 1e-9 * Math.max(1, Math.abs(computed), Math.abs(claimed))) return true;
+    const places = decimalPlaces(claimedText);
+    return places !== null && difference <= 0.5 * 10 ** -places + 1e-12;
+};
+
+const tryEvaluate = (source: string, variables: Record<string, number>): number | null => {
+    try {
+        return evaluateExpression(source, variables);
+    } catch (error) {
+        if (error instanceof EvaluationError) return null;
+        throw error;
+    }
+};
+
+const tryFreeVariables = (source: string): string[] | null => {
+    try {
+        return freeVariables(source);
+    } catch (error) {
+        if (error instanceof EvaluationError) return null;
+        throw error;
+    }
+};
+
+/**
+ * Reads answers such as `x = 2`, `x = 2, y = 3` or `x = 2 or x = -2` into
+ * one binding per alternative.
+ */
+const parseSolutions = (text: string, unknowns: string[], variables: Record<string, number>) => {
+    const parts = text.split(/,|;|\bor\b|\band\b/).map((part) => part.trim()).filter(Boolean);
+    const pairs: [string, number][] = [];
+    for (const part of parts) {
+        const [left, right] = part.split('=').map((side) => side.trim());
+        const name = right === undefined ? (unknowns.length === 1 ? unknowns[0] : null) : left;
+        const value = tryEvaluate(right ?? left, variables);
+        if (!name || !IDENTIFIER.test(name) || value === null) return null;
+        pairs.push([name, value]);
+    }
+    const names = new Set(pairs.map(([name]) => name));
+    // "x = 2 or x = -2" lists alternatives; "x = 2, y = 3" is one joint solution.
+    if (names.size === 1 && pairs.length > 1) {
+        return pairs.map(([name, value]) => ({ [name]: value }));
+    }
+    return [Object.fromEntries(pairs)];
+};
+
+const verifyEquation = (
+    left: string,
+    right: string,
+    resultText: string,
+    variables: Record<string, number>,
+): Verification => {
+    const free = [...new Set([...(tryFreeVariables(left) ?? []), ...(tryFreeVariables(right) ?? [])])]
+        .filter((name) => !hasName(variables, name));
+    const alternatives = parseSolutions(resultText.replace(/±\s*([^,;]+)/g, '$1 or -$1'), free, variables);
+    if (!alternatives) {
+        return { status: 'unchecked', note: 'The answer is not a set of values' };
+    }
+    for (const solution of alternatives) {
+        const scope = { ...variables, ...solution };
+        const lhs = tryEvaluate(left, scope);
+        const rhs = tryEvaluate(right, scope);
+        if (lhs === null || rhs === null) {
+            return { status: 'unchecked', note: 'The equation has unknowns the answer does not give' };
+        }
+        if (!closeEnough(lhs, rhs, '')) {
+            return {
+                status: 'mismatch',
+                computed: `${formatNumber(lhs)} ≠ ${formatNumber(rhs)}`,
+                note: 'Substituting the answer does not satisfy the equation',
+            };
+        }
+    }
+    return { status: 'verified', note: 'Substituting the answer satisfies the equation' };
+};
+
+/**
+ * Checks `expr` ≡ `result` by evaluating both at random values of the free variables.
+ */
+const verifyIdentity = (
+    exprText: string,
+    resultText: string,
+    free: string[],
+    variables: Record<string, number>,
+): Verification => {
+    for (let sample = 0; sample < SAMPLE_POINTS; sample++) {
+        const scope = { ...variables };
+        free.forEach((name) => {
+            scope[name] = Math.round((Math.random() * 6 - 3) * 1000) / 1000 + 0.5;
+        });
+        const expected = tryEvaluate(exprText, scope);
+        const claimed = tryEvaluate(resultText, scope);
+        if (expected === null || claimed === null) {
+            return { status: 'unchecked', note: 'The expression could not be evaluated' };
+        }
+        if (!closeEnough(expected, claimed, '')) {
+            return { status: 'mismatch', note: `The result differs from the expression at ${free.join(', ')} = ${free.map((name) => formatNumber(scope[name])).join(', ')}` };
+        }
+    }
+    return { status: 'verified', note: 'Equivalent at random sample points' };
+};
+
+/**
+ * Recomputes a solver result locally.
+ *
+ * @param result - One entry returned by the solver.
+ * @param variables - Numeric values known before this result, from `dictOfVars`.
+ */
+export const verifyResult = (result: GeneratedResult, variables: Record<string, number>): Verification => {
+    const exprText = latexToPlain(result.expr).trim();
+    const resultText = latexToPlain(result.result).trim();
+
+    if (result.assign && IDENTIFIER.test(exprText)) {
+        return { status: 'unchecked', note: 'Assignments define a value; there is nothing to check' };
+    }
+
+    const equals = exprText.split('=');
+    if (equals.length === 2) {
+        const [left, right] = equals.map((side) => side.trim());
+        if (IDENTIFIER.test(left) && !hasName(variables, left) && !(tryFreeVariables(right) ?? [left]).includes(left)) {
+            // "c = sqrt(3^2 + 4^2)": the left side only names the result.
+            return verifyResult({ ...result, expr: right, assign: false }, variables);
+        }
+        if (!right) {
+            return verifyResult({ ...result, expr: left, assign: false }, variables);
+        }
+        return verifyEquation(left, right, resultText, variables);
+    }
+    if (equals.length > 2) {
+        return { status: 'unchecked', note: 'Chained equations are not checked' };
+    }
+
+    const free = tryFreeVariables(exprText);
+    if (free === null) {
+        return { status: 'unchecked', note: 'The expression could not be read' };
+    }
+    const unknown = free.filter((name) => !hasName(variables, name));
+    if (unknown.length > 0) {
+        const resultFree = tryFreeVariables(resultText);
+        if (resultFree && resultFree.every((name) => unknown.includes(name) || hasName(variables, name))) {
+            return verifyIdentity(exprText, resultText, unknown, variables);
+        }
+        return { status: 'unchecked', note: `Unknown value for ${unknown.join(', ')}` };
+    }
+
+    const computed = tryEvaluate(exprText, variables);
+    if (computed === null) {
+        return { status: 'unchecked', note: 'The expression could not be evaluated' };
+    }
+    const claimed = tryEvaluate(resultText, variables);
+    if (claimed === null) {
+        return { status: 'unchecked', computed: formatNumber(computed), note: 'The answer is not a number' };
+    }
+    return closeEnough(computed, claimed, resultText)
+        ? { status: 'verified', computed: formatNumber(computed) }
+        : { status: 'mismatch', computed: formatNumber(computed), note: `Computed ${formatNumber(computed)} locally` };
+};
+
+/**
+ * Verifies a whole response in order, so later results can use values
+ * assigned by earlier ones.
+ */
+export const verifyResults = (
+    results: GeneratedResult[],
+    variables: Record<string, number>,
+): Verification[] => {
+    const scope = { ...variables };
+    return results.map((result) => {
+        const verification = verifyResult(result, scope);
+        if (result.assign && IDENTIFIER.test(result.expr.trim())) {
+            const value = tryEvaluate(latexToPlain(result.result), scope);
+            if (value !== null) scope[result.expr.trim()] = value;
+        }
+        return verification;
+    });
+};
@@ -0,0 +1,92 @@
+export interface CommandDefinition {
+    id: string;
+    title: string;
+    group: string;
+    keys: readonly string[];
+}
+
+/**
+ * Every action the board offers from its toolbar, in the order the command
+ * palette and the shortcut sheet list them. `keys` are the default shortcuts
+ * (see keymap.ts for the notation); the board supplies what each command does.
+ */
+export const COMMANDS = [
+    { id: 'board.undo', title: 'Undo', group: 'Edit', keys: ['Mod+Z'] },
+    { id: 'board.redo', title: 'Redo', group: 'Edit', keys: ['Mod+Y', 'Mod+Shift+Z'] },
+    { id: 'board.reset', title: 'Reset board', group: 'Edit', keys: ['Mod+Shift+Backspace'] },
+
+    { id: 'tool.draw', title: 'Pencil', group: 'Tools', keys: ['P'] },
+    { id: 'tool.erase', title: 'Eraser', group: 'Tools', keys: ['E'] },
+    { id: 'tool.select', title: 'Select', group: 'Tools', keys: ['V'] },
+    { id: 'tool.text', title: 'Text', group: 'Tools', keys: ['T'] },
+    { id: 'tool.rectangle', title: 'Rectangle', group: 'Tools', keys: ['R'] },
+    { id: 'tool.circle', title: 'Circle', group: 'Tools', keys: ['O'] },
+    { id: 'tool.ellipse', title: 'Ellipse', group: 'Tools', keys: ['Shift+O'] },
+    { id: 'tool.triangle', title: 'Triangle', group: 'Tools', keys: ['A'] },
+    { id: 'tool.line', title: 'Line', group: 'Tools', keys: ['L'] },
+    { id: 'tool.arrow', title: 'Arrow', group: 'Tools', keys: ['Shift+L'] },
+    { id: 'tool.regularPolygon', title: 'Regular polygon', group: 'Tools', keys: ['N'] },
+    { id: 'tool.polygon', title: 'Polygon', group: 'Tools', keys: ['Shift+N'] },
+    { id: 'polygon.finish', title: 'Finish polygon', group: 'Tools', keys: ['Enter'] },
+    { id: 'polygon.cancel', title: 'Cancel polygon', group: 'Tools', keys: ['Escape'] },
+    { id: 'tool.graph', title: 'Graph', group: 'Tools', keys: ['G'] },
+    { id: 'snap.grid', title: 'Toggle grid snapping', group: 'Tools', keys: ['Shift+G'] },
+    { id: 'snap.angle', title: 'Toggle angle snapping', group: 'Tools', keys: ['Shift+A'] },
+    { id: 'snap.measure', title: 'Toggle measurements on new shapes', group: 'Tools', keys: ['Shift+D'] },
+    { id: 'snap.recognize', title: 'Toggle shape recognition', group: 'Tools', keys: ['Shift+R'] },
+    { id: 'tool.region', title: 'Select region', group: 'Tools', keys: ['M'] },
+    { id: 'color.next', title: 'Next color', group: 'Tools', keys: ['.'] },
+    { id: 'color.previous', title: 'Previous color', group: 'Tools', keys: [','] },
+
+    { id: 'selection.delete', title: 'Delete selection', group: 'Selection', keys: ['Delete', 'Backspace'] },
+    { id: 'selection.clear', title: 'Clear selection', group: 'Selection', keys: ['Escape'] },
+    { id: 'selection.front', title: 'Bring to front', group: 'Selection', keys: ['Mod+Shift+]'] },
+    { id: 'selection.forward', title: 'Bring forward', group: 'Selection', keys: ['Mod+]'] },
+    { id: 'selection.backward', title: 'Send backward', group: 'Selection', keys: ['Mod+['] },
+    { id: 'selection.back', title: 'Send to back', group: 'Selection', keys: ['Mod+Shift+['] },
+    { id: 'region.toggleShape', title: 'Switch between rectangle and lasso region', group: 'Selection', keys: ['Shift+M'] },
+    { id: 'region.clear', title: 'Clear region', group: 'Selection', keys: [] },
+
+    { id: 'run.all', title: 'Run', group: 'Run', keys: ['Mod+Enter'] },
+    { id: 'run.selection', title: 'Run selection', group: 'Run', keys: ['Mod+Shift+Enter'] },
+    { id: 'run.cancel', title: 'Cancel run', group: 'Run', keys: ['Mod+.'] },
+    { id: 'run.retry', title: 'Try the failed run again', group: 'Run', keys: [] },
+
+    { id: 'file.save', title: 'Save to file', group: 'File', keys: ['Mod+S'] },
+    { id: 'file.open', title: 'Open file', group: 'File', keys: ['Mod+O'] },
+    { id: 'file.exportPng', title: 'Export as PNG image', group: 'File', keys: [] },
+    { id: 'file.exportSvg', title: 'Export as SVG', group: 'File', keys: [] },
+    { id: 'file.exportPdf', title: 'Export as PDF document', group: 'File', keys: [] },
+
+    { id: 'view.zoomIn', title: 'Zoom in', group: 'View', keys: ['Mod+='] },
+    { id: 'view.zoomOut', title: 'Zoom out', group: 'View', keys: ['Mod+-'] },
+    { id: 'view.zoomReset', title: 'Zoom to 100%', group: 'View', keys: ['Mod+0'] },
+    { id: 'view.zoomToFit', title: 'Zoom to fit', group: 'View', keys: ['Shift+1'] },
+    { id: 'view.variables', title: 'Show or hide variables', group: 'View', keys: ['Alt+V'] },
+    { id: 'view.history', title: 'Show or hide run history', group: 'View', keys: ['Alt+H'] },
+    { id: 'view.layers', title: 'Show or hide layers', group: 'View', keys: ['Alt+L'] },
+    { id: 'view.highContrast', title: 'Toggle high-contrast theme', group: 'View', keys: ['Alt+C'] },
+
+    { id: 'collab.start', title: 'Start collaborating', group: 'Collaboration', keys: [] },
+    { id: 'collab.copyLink', title: 'Copy invite link', group: 'Collaboration', keys: [] },
+    { id: 'collab.leave', title: 'Leave collaboration', group: 'Collaboration', keys: [] },
+
+    { id: 'app.palette', title: 'Command palette', group: 'Help', keys: ['Mod+K'] },
+    { id: 'app.shortcuts', title: 'Keyboard shortcuts', group: 'Help', keys: ['Shift+/'] },
+] as const satisfies readonly CommandDefinition[];
+
+export type CommandId = (typeof COMMANDS)[number]['id'];
+
+/**
+ * What a command does on this board right now. Commands that do not apply,
+ * e.g. deleting with nothing selected, are disabled rather than left out.
+ */
+export interface CommandHandler {
+    run: () => void;
+    enabled?: boolean;
+}
+
+export type CommandHandlers = Record<CommandId, CommandHandler>;
+
+export const getCommand = (id: CommandId): CommandDefinition =>
+    COMMANDS.find((command) => command.id === id) as CommandDefinition;
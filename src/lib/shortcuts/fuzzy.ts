@@ -0,0 +1,25 @@
+/**
+ * Scores how well `query` matches `text` when its characters appear in order
+ * but not necessarily next to each other, e.g. "rsel" in "Run selection".
+ * Returns null when they do not all appear. Higher is better: runs of
+ * consecutive characters and matches at the start of a word count extra.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+    const needle = query.toLowerCase().replace(/\s+/g, '');
+    const haystack = text.toLowerCase();
+    if (!needle) return 0;
+    let score = 0;
+    let from = 0;
+    let previous = -2;
+    for (const char of needle) {
+        const index = haystack.indexOf(char, from);
+        if (index === -1) return null;
+        score += 1;
+        if (index === previous + 1) score += 2;
+        if (index === 0 || /[\s.-]/.test(haystack[index - 1])) score += 3;
+        previous = index;
+        from = index + 1;
+    }
+    // Prefer shorter titles when the matches are otherwise as good.
+    return score - haystack.length / 100;
+};
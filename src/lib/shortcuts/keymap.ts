@@ -0,0 +1,133 @@
+import { COMMANDS, type CommandId } from '@/lib/shortcuts/commands';
+
+/**
+ * Shortcuts are written as modifiers and a key joined by `+`, e.g.
+ * `Mod+Shift+Z`. `Mod` is Cmd on macOS and Ctrl elsewhere; `Ctrl` on its own
+ * only appears on macOS, where it is a separate key. Letters, digits and
+ * punctuation name the physical key on a US layout (so `?` is `Shift+/`),
+ * and other keys use their `KeyboardEvent.key` name, e.g. `Enter`.
+ */
+export type Keymap = Record<CommandId, string[]>;
+
+const KEYMAP_STORAGE_KEY = 'mathscribe.keymap';
+const MODIFIER_ORDER = ['Mod', 'Ctrl', 'Alt', 'Shift'];
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock', 'OS'];
+const PUNCTUATION_CODES: Record<string, string> = {
+    Minus: '-',
+    Equal: '=',
+    BracketLeft: '[',
+    BracketRight: ']',
+    Backslash: '\\',
+    Semicolon: ';',
+    Quote: "'",
+    Comma: ',',
+    Period: '.',
+    Slash: '/',
+    Backquote: '`',
+};
+const MAC_SYMBOLS: Record<string, string> = { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧' };
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+
+export const DEFAULT_KEYMAP = Object.fromEntries(COMMANDS.map(({ id, keys }) => [id, [...keys]])) as Keymap;
+
+const keyName = (e: KeyboardEvent): string => {
+    if (/^Key[A-Z]$/.test(e.code)) return e.code.slice(3);
+    if (/^(Digit|Numpad)[0-9]$/.test(e.code)) return e.code.slice(-1);
+    if (PUNCTUATION_CODES[e.code]) return PUNCTUATION_CODES[e.code];
+    return e.key.length === 1 ? e.key.toUpperCase() : e.key;
+};
+
+/**
+ * The shortcut a key press stands for, or null for a bare modifier.
+ */
+export const eventToChord = (e: KeyboardEvent): string | null => {
+    if (MODIFIER_KEYS.includes(e.key)) return null;
+    const parts: string[] = [];
+    if (isMac ? e.metaKey : e.ctrlKey) parts.push('Mod');
+    if (isMac && e.ctrlKey) parts.push('Ctrl');
+    if (e.altKey) parts.push('Alt');
+    if (e.shiftKey) parts.push('Shift');
+    parts.push(keyName(e));
+    return parts.join('+');
+};
+
+/**
+ * Whether a shortcut uses no modifier besides Shift, so it would type a
+ * character into a text field.
+ */
+export const isPlainChord = (chord: string): boolean =>
+    !chord.split('+').some((part) => ['Mod', 'Ctrl', 'Alt'].includes(part));
+
+/**
+ * A shortcut as shown to the user, e.g. `⌘⇧Z` on macOS and `Ctrl+Shift+Z` elsewhere.
+ */
+export const formatChord = (chord: string): string => {
+    const parts = chord.split('+');
+    // A trailing empty part means the key itself is `+`.
+    const key = parts[parts.length - 1] || '+';
+    const modifiers = parts.slice(0, -1).filter((part) => MODIFIER_ORDER.includes(part));
+    if (isMac) return `${modifiers.map((part) => MAC_SYMBOLS[part]).join('')}${key}`;
+    return [...modifiers.map((part) => (part === 'Mod' ? 'Ctrl' : part)), key].join('+');
+};
+
+/**
+ * The command bound to `chord`, if any.
+ */
+export const findCommand = (keymap: Keymap, chord: string): CommandId | undefined =>
+    (Object.keys(keymap) as CommandId[]).find((id) => keymap[id].includes(chord));
+
+/**
+ * Every command bound to `chord`. Defaults may share a key between commands
+ * that never apply at the same time, such as Escape.
+ */
+export const commandsForChord = (keymap: Keymap, chord: string): CommandId[] =>
+    (Object.keys(keymap) as CommandId[]).filter((id) => keymap[id].includes(chord));
+
+/**
+ * Binds `chord` to `id`, taking it away from whichever command had it.
+ */
+export const bindChord = (keymap: Keymap, id: CommandId, chord: string): Keymap => {
+    const next = { ...keymap };
+    (Object.keys(next) as CommandId[]).forEach((other) => {
+        if (next[other].includes(chord)) next[other] = next[other].filter((existing) => existing !== chord);
+    });
+    next[id] = [...next[id], chord];
+    return next;
+};
+
+export const unbindChord = (keymap: Keymap, id: CommandId, chord: string): Keymap => ({
+    ...keymap,
+    [id]: keymap[id].filter((existing) => existing !== chord),
+});
+
+/**
+ * Returns the user's shortcuts: the defaults with whatever they remapped.
+ */
+export const loadKeymap = (): Keymap => {
+    const keymap = { ...DEFAULT_KEYMAP };
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(KEYMAP_STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+        Object.entries(stored).forEach(([id, chords]) => {
+            if (id in keymap && Array.isArray(chords) && chords.every((chord) => typeof chord === 'string')) {
+                keymap[id as CommandId] = chords;
+            }
+        });
+    } catch (error) {
+        console.error('Keymap Error:', error);
+    }
+    return keymap;
+};
+
+/**
+ * Stores only the commands whose shortcuts differ from the defaults, so
+ * later changes to the defaults still reach everything else.
+ */
+export const saveKeymap = (keymap: Keymap) => {
+    const changed = Object.fromEntries(
+        (Object.keys(keymap) as CommandId[])
+            .filter((id) => keymap[id].join(' ') !== DEFAULT_KEYMAP[id].join(' '))
+            .map((id) => [id, keymap[id]]),
+    );
+    window.localStorage.setItem(KEYMAP_STORAGE_KEY, JSON.stringify(changed));
+};
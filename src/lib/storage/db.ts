@@ -0,0 +1,71 @@
+const DATABASE_NAME = 'mathscribe';
+const DATABASE_VERSION = 2;
+
+export const BOARDS_STORE = 'boards';
+export const RUNS_STORE = 'runs';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Creates or upgrades object stores. Each step upgrades from one version to the
+ * next, so existing databases pick up only the steps they are missing.
+ */
+const upgrade = (database: IDBDatabase, oldVersion: number) => {
+    if (oldVersion < 1) {
+        const boards = database.createObjectStore(BOARDS_STORE, { keyPath: 'id' });
+        boards.createIndex('updatedAt', 'updatedAt');
+    }
+    if (oldVersion < 2) {
+        const runs = database.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+        runs.createIndex('boardId', 'boardId');
+    }
+};
+
+/**
+ * Opens (once per page) the app's IndexedDB database.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+            request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                databasePromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return databasePromise;
+};
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Runs `action` against a single object store and resolves once the
+ * transaction has committed.
+ */
+export const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+    const database = await openDatabase();
+    const transaction = database.transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+    const result = promisifyRequest(action(transaction.objectStore(storeName)));
+    // Awaited together, so a failed request is never left without a handler.
+    const [value] = await Promise.all([result, done]);
+    return value;
+};
@@ -0,0 +1,99 @@
+import { createDocument, validateDocument, type BoardDocument } from '@/lib/board/document';
+import { createId } from '@/lib/board/types';
+import { BOARDS_STORE, withStore } from '@/lib/storage/db';
+import { clearRuns } from '@/lib/storage/runs';
+
+/**
+ * A board as kept in the notebook. The board content itself is stored in the
+ * same shape as a `.mathscribe` file so it can be migrated the same way.
+ */
+export interface StoredBoard {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+    thumbnail?: string;
+    document: BoardDocument;
+}
+
+export type BoardSummary = Omit<StoredBoard, 'document'> & { name: string };
+
+const toSummary = ({ document, ...board }: StoredBoard): BoardSummary => ({ ...board, name: document.name });
+
+const putBoard = (board: StoredBoard) => withStore(BOARDS_STORE, 'readwrite', (store) => store.put(board));
+
+/**
+ * Lists every board in the notebook, most recently edited first.
+ */
+export const listBoards = async (): Promise<BoardSummary[]> => {
+    const boards = await withStore<StoredBoard[]>(BOARDS_STORE, 'readonly', (store) => store.getAll());
+    return boards
+        .map(toSummary)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Loads a board, migrating its document if it was stored by an older version.
+ */
+export const getBoard = async (id: string): Promise<StoredBoard | undefined> => {
+    const board = await withStore<StoredBoard | undefined>(BOARDS_STORE, 'readonly', (store) => store.get(id));
+    return board && { ...board, document: validateDocument(board.document) };
+};
+
+export const createBoard = async (
+    name: string,
+    document: BoardDocument = createDocument(name, [], {}),
+): Promise<StoredBoard> => {
+    const now = new Date().toISOString();
+    const board: StoredBoard = {
+        id: createId(),
+        createdAt: now,
+        updatedAt: now,
+        document: { ...document, name },
+    };
+    await putBoard(board);
+    return board;
+};
+
+/**
+ * Replaces a board's content, keeping its id and creation date.
+ */
+export const saveBoard = async (id: string, document: BoardDocument, thumbnail?: string): Promise<void> => {
+    const existing = await getBoard(id);
+    const now = new Date().toISOString();
+    await putBoard({
+        id,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        thumbnail: thumbnail ?? existing?.thumbnail,
+        document,
+    });
+};
+
+export const renameBoard = async (id: string, name: string): Promise<void> => {
+    const existing = await getBoard(id);
+    if (!existing) return;
+    await putBoard({
+        ...existing,
+        updatedAt: new Date().toISOString(),
+        document: { ...existing.document, name },
+    });
+};
+
+export const duplicateBoard = async (id: string): Promise<StoredBoard | undefined> => {
+    const existing = await getBoard(id);
+    if (!existing) return undefined;
+    const copy = await createBoard(`${existing.document.name} (copy)`, existing.document);
+    if (existing.thumbnail) {
+        copy.thumbnail = existing.thumbnail;
+        await putBoard(copy);
+    }
+    return copy;
+};
+
+/**
+ * Deletes a board together with its run history.
+ */
+export const deleteBoard = async (id: string): Promise<void> => {
+    await withStore(BOARDS_STORE, 'readwrite', (store) => store.delete(id));
+    await clearRuns(id);
+};
@@ -0,0 +1,83 @@
+import type { GeneratedResult } from '@/lib/api/solver';
+import type { SolverProviderId } from '@/lib/api/providers';
+import type { Region } from '@/lib/board/region';
+import type { Point } from '@/lib/board/types';
+import type { Verification } from '@/lib/math/verify';
+import { openDatabase, promisifyRequest, RUNS_STORE, withStore } from '@/lib/storage/db';
+
+/**
+ * Runs kept per board; older ones are dropped as new ones are recorded.
+ */
+export const MAX_RUNS_PER_BOARD = 50;
+
+/**
+ * One call to a solver, as recorded in a board's run history.
+ */
+export interface RunRecord {
+    id: string;
+    boardId: string;
+    startedAt: string;
+    latencyMs: number;
+    providerId: SolverProviderId;
+    /** The selection the run was limited to, or null for the whole board. */
+    region: Region | null;
+    /** The image that was sent, kept so the run can be sent again. */
+    image: string;
+    /**
+     * Board position of the image's top-left pixel. Missing on older runs,
+     * whose whole-board images were screenshots starting at the board origin.
+     */
+    imageOrigin?: Point;
+    thumbnail: string;
+    texts: string[];
+    /** The `dict_of_vars` sent with the run. */
+    variables: { [key: string]: string };
+    /** Present when the solver answered. */
+    response?: {
+        results: GeneratedResult[];
+        verifications: Verification[];
+        raw?: unknown;
+    };
+    /** Present when the run failed. */
+    error?: {
+        kind: string;
+        message: string;
+    };
+}
+
+/**
+ * Lists a board's runs, most recent first.
+ */
+export const listRuns = async (boardId: string): Promise<RunRecord[]> => {
+    const runs = await withStore<RunRecord[]>(RUNS_STORE, 'readonly', (store) =>
+        store.index('boardId').getAll(boardId),
+    );
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
+
+/**
+ * Records a run, dropping the board's oldest runs beyond `MAX_RUNS_PER_BOARD`.
+ */
+export const addRun = async (run: RunRecord): Promise<void> => {
+    await withStore(RUNS_STORE, 'readwrite', (store) => store.put(run));
+    const stale = (await listRuns(run.boardId)).slice(MAX_RUNS_PER_BOARD);
+    await Promise.all(stale.map(({ id }) => deleteRun(id)));
+};
+
+export const deleteRun = (id: string) => withStore(RUNS_STORE, 'readwrite', (store) => store.delete(id));
+
+/**
+ * Forgets every run of a board.
+ */
+export const clearRuns = async (boardId: string): Promise<void> => {
+    const database = await openDatabase();
+    const transaction = database.transaction(RUNS_STORE, 'readwrite');
+    const store = transaction.objectStore(RUNS_STORE);
+    const keys = await promisifyRequest(store.index('boardId').getAllKeys(boardId));
+    keys.forEach((key) => store.delete(key));
+    await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
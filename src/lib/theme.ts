@@ -0,0 +1,18 @@
+const HIGH_CONTRAST_STORAGE_KEY = 'mathscribe.highContrast';
+
+/**
+ * Whether the high-contrast theme was chosen in this browser.
+ */
+export const loadHighContrast = (): boolean => window.localStorage.getItem(HIGH_CONTRAST_STORAGE_KEY) === 'true';
+
+export const saveHighContrast = (enabled: boolean) => {
+    window.localStorage.setItem(HIGH_CONTRAST_STORAGE_KEY, String(enabled));
+};
+
+/**
+ * Switches the page to or from the high-contrast theme, which is styled in
+ * `index.css` under the `high-contrast` class.
+ */
+export const applyHighContrast = (enabled: boolean) => {
+    document.documentElement.classList.toggle('high-contrast', enabled);
+};
@@ -0,0 +1,26 @@
+const THUMBNAIL_WIDTH = 320;
+
+/**
+ * Renders a copy of an image small enough to keep alongside a board or run.
+ */
+export const createThumbnail = (source: HTMLCanvasElement | HTMLImageElement, width = THUMBNAIL_WIDTH): string => {
+    const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+    const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+    const scale = Math.min(1, width / Math.max(1, sourceWidth));
+    const thumbnail = document.createElement('canvas');
+    thumbnail.width = Math.max(1, Math.round(sourceWidth * scale));
+    thumbnail.height = Math.max(1, Math.round(sourceHeight * scale));
+    thumbnail.getContext('2d')?.drawImage(source, 0, 0, thumbnail.width, thumbnail.height);
+    return thumbnail.toDataURL('image/png');
+};
+
+/**
+ * Same as `createThumbnail`, for an image that is only available as a data URL.
+ */
+export const createThumbnailFromDataUrl = (dataUrl: string, width = THUMBNAIL_WIDTH): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(createThumbnail(image, width));
+        image.onerror = () => reject(new Error('Could not read the image'));
+        image.src = dataUrl;
+    });
@@ -0,0 +1,103 @@
+import { useMemo, useState } from 'react';
+import { COMMANDS, type CommandHandlers, type CommandId } from '@/lib/shortcuts/commands';
+import { fuzzyScore } from '@/lib/shortcuts/fuzzy';
+import { formatChord, type Keymap } from '@/lib/shortcuts/keymap';
+
+interface CommandPaletteProps {
+    keymap: Keymap;
+    handlers: CommandHandlers;
+    onClose: () => void;
+}
+
+/**
+ * Searches every command by name and runs the chosen one.
+ */
+export default function CommandPalette({ keymap, handlers, onClose }: CommandPaletteProps) {
+    const [query, setQuery] = useState('');
+    const [active, setActive] = useState(0);
+
+    const matches = useMemo(
+        () =>
+            COMMANDS.filter((command) => command.id !== 'app.palette')
+                .map((command) => ({
+                    command,
+                    score: fuzzyScore(query, command.title) ?? fuzzyScore(query, `${command.group} ${command.title}`),
+                }))
+                .filter((match): match is typeof match & { score: number } => match.score !== null)
+                .sort((a, b) => b.score - a.score)
+                .map(({ command }) => command),
+        [query],
+    );
+
+    const run = (id: CommandId) => {
+        if (handlers[id].enabled === false) return;
+        onClose();
+        handlers[id].run();
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActive((prev) => (matches.length > 0 ? (prev + step + matches.length) % matches.length : 0));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            if (matches[active]) run(matches[active].id);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 pt-24"
+            onPointerDown={(e) => e.target === e.currentTarget && onClose()}
+        >
+            <div className="w-[32rem] max-w-full mx-4 rounded bg-gray-900 text-white shadow-xl" role="dialog" aria-label="Command palette">
+                <input
+                    autoFocus
+                    value={query}
+                    onChange={(e) => {
+                        setQuery(e.target.value);
+                        setActive(0);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Type a command…"
+                    aria-label="Search commands"
+                    aria-controls="command-palette-list"
+                    aria-activedescendant={matches[active] ? `command-${matches[active].id}` : undefined}
+                    className="w-full px-4 py-3 rounded-t bg-gray-800 text-white outline-none"
+                />
+                <ul id="command-palette-list" role="listbox" className="max-h-80 overflow-y-auto py-1 text-sm">
+                    {matches.length === 0 && <li className="px-4 py-2 text-gray-400">No matching commands.</li>}
+                    {matches.map((command, index) => {
+                        const disabled = handlers[command.id].enabled === false;
+                        return (
+                            <li
+                                key={command.id}
+                                id={`command-${command.id}`}
+                                role="option"
+                                aria-selected={index === active}
+                                aria-disabled={disabled}
+                                onPointerMove={() => setActive(index)}
+                                onClick={() => run(command.id)}
+                                className={`flex items-center gap-2 px-4 py-2 cursor-pointer ${
+                                    index === active ? 'bg-blue-700' : ''
+                                } ${disabled ? 'text-gray-500' : ''}`}
+                            >
+                                <span className="text-gray-400 w-24 shrink-0">{command.group}</span>
+                                <span className="mr-auto">{command.title}</span>
+                                {keymap[command.id][0] && (
+                                    <kbd className="px-1.5 rounded bg-gray-700 font-mono text-xs">
+                                        {formatChord(keymap[command.id][0])}
+                                    </kbd>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { MAX_FONT_SIZE, MIN_FONT_SIZE } from '@/lib/board/text';
+
+interface FontSizeInputProps {
+    id: string;
+    value: number;
+    onCommit: (fontSize: number) => void;
+}
+
+/**
+ * A font size field that is edited as text and only committed on blur or
+ * Enter, so typing "24" is one change rather than "2" then "24". The size is
+ * kept within the allowed range, and an empty or unreadable entry is dropped.
+ */
+export default function FontSizeInput({ id, value, onCommit }: FontSizeInputProps) {
+    const [draft, setDraft] = useState(String(value));
+
+    // Follow changes made elsewhere, such as undo or selecting other text.
+    useEffect(() => {
+        setDraft(String(value));
+    }, [value]);
+
+    const commit = () => {
+        const entered = draft.trim() === '' ? NaN : Number(draft);
+        if (Number.isNaN(entered)) {
+            setDraft(String(value));
+            return;
+        }
+        const fontSize = Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, Math.round(entered)));
+        setDraft(String(fontSize));
+        if (fontSize !== value) onCommit(fontSize);
+    };
+
+    return (
+        <input
+            id={id}
+            type="number"
+            min={MIN_FONT_SIZE}
+            max={MAX_FONT_SIZE}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') commit();
+            }}
+            className="w-16 p-1 rounded"
+        />
+    );
+}
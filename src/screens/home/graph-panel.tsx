@@ -0,0 +1,133 @@
+import { Button } from '@/components/ui/button';
+import React, { useState } from 'react';
+import { isValidRange, nextGraphColor, parseGraphFunction, zoomRange } from '@/lib/board/graph';
+import type { GraphObject, GraphRange } from '@/lib/board/types';
+import { formatNumber } from '@/lib/math/evaluate';
+
+interface GraphPanelProps {
+    graph: GraphObject;
+    /** Numeric variables, substituted into plotted functions. */
+    variables: Record<string, number>;
+    onChange: (patch: Partial<GraphObject>) => void;
+    onClose: () => void;
+}
+
+const RANGE_FIELDS: { key: keyof GraphRange; label: string }[] = [
+    { key: 'xMin', label: 'x from' },
+    { key: 'xMax', label: 'to' },
+    { key: 'yMin', label: 'y from' },
+    { key: 'yMax', label: 'to' },
+];
+const ZOOM_STEP = 1.5;
+
+/**
+ * Edits the graph being worked on: its range, grid and labels, and the
+ * functions plotted on it. Range values are committed on blur or Enter.
+ */
+export default function GraphPanel({ graph, variables, onChange, onClose }: GraphPanelProps) {
+    const [source, setSource] = useState<string>('');
+    const [error, setError] = useState<string | null>(null);
+
+    const setRangeValue = (key: keyof GraphRange, text: string) => {
+        const range = { ...graph.range, [key]: Number(text) };
+        if (text.trim() !== '' && isValidRange(range)) onChange({ range });
+    };
+
+    const handlePlot = (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            const expr = parseGraphFunction(source, variables);
+            onChange({ functions: [...graph.functions, { expr, color: nextGraphColor(graph) }] });
+            setSource('');
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    return (
+        <aside
+            className="absolute top-4 right-4 z-30 flex flex-col gap-3 w-72 p-3 rounded bg-gray-900 text-white text-sm shadow-xl"
+            aria-label="Graph"
+        >
+            <div className="flex items-center justify-between">
+                <h2 className="font-semibold">Graph</h2>
+                <Button size="sm" variant="ghost" onClick={onClose}>
+                    Close
+                </Button>
+            </div>
+            <form onSubmit={handlePlot} className="flex flex-col gap-1">
+                <div className="flex gap-2">
+                    <input
+                        aria-label="Function to plot"
+                        placeholder="y = x^2 - 3"
+                        value={source}
+                        onChange={(e) => setSource(e.target.value)}
+                        className="flex-1 min-w-0 px-1 rounded bg-gray-800 font-mono"
+                    />
+                    <Button type="submit" size="sm" variant="filled" color="blue" disabled={source.trim() === ''}>
+                        Plot
+                    </Button>
+                </div>
+                {error && <p className="text-xs text-red-300" role="alert">{error}</p>}
+            </form>
+            {graph.functions.length > 0 && (
+                <ul className="flex flex-col gap-1">
+                    {graph.functions.map((fn, index) => (
+                        <li key={`${index}-${fn.expr}`} className="flex items-center gap-2">
+                            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: fn.color }} />
+                            <span className="mr-auto font-mono truncate">y = {fn.expr}</span>
+                            <button
+                                type="button"
+                                onClick={() => onChange({ functions: graph.functions.filter((_, i) => i !== index) })}
+                                className="text-gray-400 hover:text-red-400"
+                                aria-label={`Remove y = ${fn.expr}`}
+                            >
+                                ×
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="grid grid-cols-[auto_1fr_auto_1fr] items-center gap-1">
+                {RANGE_FIELDS.map(({ key, label }) => (
+                    <React.Fragment key={key}>
+                        <label htmlFor={`graph-${key}`} className="text-gray-400">
+                            {label}
+                        </label>
+                        <input
+                            id={`graph-${key}`}
+                            key={graph.range[key]}
+                            type="number"
+                            defaultValue={formatNumber(graph.range[key])}
+                            onBlur={(e) => setRangeValue(key, e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') e.currentTarget.blur();
+                            }}
+                            className="w-full min-w-0 px-1 rounded bg-gray-800 font-mono"
+                        />
+                    </React.Fragment>
+                ))}
+            </div>
+            <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={graph.grid} onChange={(e) => onChange({ grid: e.target.checked })} />
+                    Grid
+                </label>
+                <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={graph.labels} onChange={(e) => onChange({ labels: e.target.checked })} />
+                    Numbers
+                </label>
+                <span className="ml-auto flex gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => onChange({ range: zoomRange(graph.range, 1 / ZOOM_STEP) })} aria-label="Zoom graph out">
+                        −
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => onChange({ range: zoomRange(graph.range, ZOOM_STEP) })} aria-label="Zoom graph in">
+                        +
+                    </Button>
+                </span>
+            </div>
+            <p className="text-xs text-gray-400">Drag inside the graph with the Graph tool to move the view.</p>
+        </aside>
+    );
+}
@@ -0,0 +1,229 @@
+import { Button } from '@/components/ui/button';
+import { useState } from 'react';
+import { getProvider } from '@/lib/api/providers';
+import type { RunRecord } from '@/lib/storage/runs';
+
+interface HistoryPanelProps {
+    runs: RunRecord[];
+    isSolving: boolean;
+    /** Label of the provider a re-run is sent to. */
+    providerLabel: string;
+    onRestore: (run: RunRecord) => void;
+    onRerun: (run: RunRecord) => void;
+    onDelete: (id: string) => void;
+    onClear: () => void;
+    onClose: () => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+const formatLatency = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const describeOutcome = (run: RunRecord) => {
+    if (run.error) return run.error.message;
+    const count = run.response?.results.length ?? 0;
+    return count === 1 ? '1 result' : `${count} results`;
+};
+
+/**
+ * Results of a run keyed by expression, for comparing two runs.
+ */
+const resultsByExpr = (run: RunRecord): Map<string, string> =>
+    new Map((run.response?.results ?? []).map(({ expr, result }) => [expr, result]));
+
+function RunComparison({ runs, onClose }: { runs: [RunRecord, RunRecord]; onClose: () => void }) {
+    const [first, second] = runs;
+    const left = resultsByExpr(first);
+    const right = resultsByExpr(second);
+    const exprs = [...new Set([...left.keys(), ...right.keys()])];
+    const variableNames = [...new Set([...Object.keys(first.variables), ...Object.keys(second.variables)])].sort();
+
+    return (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60" role="dialog" aria-label="Compare runs">
+            <div className="flex flex-col w-[56rem] max-w-full max-h-full m-4 rounded bg-gray-900 text-white shadow-xl">
+                <div className="flex items-center justify-between p-4 bg-gray-800">
+                    <h2 className="font-semibold">Compare runs</h2>
+                    <Button size="sm" variant="ghost" onClick={onClose}>
+                        Close
+                    </Button>
+                </div>
+                <div className="overflow-y-auto p-4 text-sm">
+                    <div className="grid grid-cols-2 gap-4">
+                        {runs.map((run) => (
+                            <div key={run.id}>
+                                <img src={run.image} alt="Image sent to the solver" className="w-full mb-2 bg-white rounded" />
+                                <p>{formatTime(run.startedAt)}</p>
+                                <p className="text-gray-400">
+                                    {getProvider(run.providerId).label} · {formatLatency(run.latencyMs)}
+                                    {run.region && ' · selection'}
+                                </p>
+                                {run.error && <p className="text-red-400">{run.error.message}</p>}
+                            </div>
+                        ))}
+                    </div>
+                    <h3 className="mt-4 mb-1 font-semibold">Results</h3>
+                    {exprs.length === 0 ? (
+                        <p className="text-gray-400">Neither run returned results.</p>
+                    ) : (
+                        <table className="w-full font-mono">
+                            <tbody>
+                                {exprs.map((expr) => {
+                                    const differs = left.get(expr) !== right.get(expr);
+                                    return (
+                                        <tr key={expr} className={differs ? 'bg-yellow-900' : undefined}>
+                                            <td className="p-1">{expr}</td>
+                                            <td className="p-1">{left.get(expr) ?? '—'}</td>
+                                            <td className="p-1">{right.get(expr) ?? '—'}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                    <h3 className="mt-4 mb-1 font-semibold">Variables sent</h3>
+                    {variableNames.length === 0 ? (
+                        <p className="text-gray-400">None.</p>
+                    ) : (
+                        <table className="w-full font-mono">
+                            <tbody>
+                                {variableNames.map((name) => {
+                                    const differs = first.variables[name] !== second.variables[name];
+                                    return (
+                                        <tr key={name} className={differs ? 'bg-yellow-900' : undefined}>
+                                            <td className="p-1">{name}</td>
+                                            <td className="p-1">{first.variables[name] ?? '—'}</td>
+                                            <td className="p-1">{second.variables[name] ?? '—'}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                    <div className="grid grid-cols-2 gap-4 mt-4">
+                        {runs.map((run) => (
+                            <details key={run.id}>
+                                <summary className="cursor-pointer">Raw response</summary>
+                                <pre className="overflow-x-auto p-2 rounded bg-gray-800 text-xs">
+                                    {JSON.stringify(run.response?.raw ?? run.error ?? null, null, 2)}
+                                </pre>
+                            </details>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Side panel listing the board's past runs, newest first. Ticking two runs
+ * opens them side by side with differing results highlighted.
+ */
+export default function HistoryPanel({
+    runs,
+    isSolving,
+    providerLabel,
+    onRestore,
+    onRerun,
+    onDelete,
+    onClear,
+    onClose,
+}: HistoryPanelProps) {
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+    const [isComparing, setIsComparing] = useState<boolean>(false);
+    const compared = compareIds
+        .map((id) => runs.find((run) => run.id === id))
+        .filter((run): run is RunRecord => run !== undefined);
+
+    const toggleCompare = (id: string) => {
+        setCompareIds((prev) => {
+            if (prev.includes(id)) return prev.filter((entry) => entry !== id);
+            // Keep the two most recently ticked runs.
+            return [...prev, id].slice(-2);
+        });
+    };
+
+    return (
+        <aside
+            className="fixed top-0 right-0 z-30 flex flex-col w-80 h-full bg-gray-900 text-white shadow-xl"
+            aria-label="Run history"
+        >
+            <div className="flex items-center justify-between p-4 bg-gray-800">
+                <h2 className="font-semibold">Run history</h2>
+                <Button size="sm" variant="ghost" onClick={onClose}>
+                    Close
+                </Button>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+                {runs.length === 0 && (
+                    <p className="p-4 text-sm text-gray-400">
+                        No runs yet. Every run is recorded here with what was sent and what came back.
+                    </p>
+                )}
+                <ul>
+                    {runs.map((run) => (
+                        <li key={run.id} className="p-3 border-b border-gray-700">
+                            <div className="flex gap-2">
+                                {run.thumbnail && (
+                                    <img src={run.thumbnail} alt="" className="w-20 h-14 object-contain bg-white rounded" />
+                                )}
+                                <div className="flex-1 min-w-0 text-xs">
+                                    <p className="text-sm">{formatTime(run.startedAt)}</p>
+                                    <p className="text-gray-400">
+                                        {getProvider(run.providerId).label} · {formatLatency(run.latencyMs)}
+                                    </p>
+                                    <p className={run.error ? 'text-red-400 truncate' : 'truncate'}>{describeOutcome(run)}</p>
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-3 mt-2 text-xs text-gray-400">
+                                <label className="flex items-center gap-1 mr-auto">
+                                    <input
+                                        type="checkbox"
+                                        checked={compareIds.includes(run.id)}
+                                        onChange={() => toggleCompare(run.id)}
+                                    />
+                                    Compare
+                                </label>
+                                {run.response && (
+                                    <button type="button" className="hover:text-white" onClick={() => onRestore(run)}>
+                                        Restore
+                                    </button>
+                                )}
+                                <button
+                                    type="button"
+                                    className="hover:text-white disabled:opacity-50"
+                                    disabled={isSolving}
+                                    title={`Send the same image and variables to ${providerLabel}`}
+                                    onClick={() => onRerun(run)}
+                                >
+                                    Re-run
+                                </button>
+                                <button type="button" className="hover:text-red-400" onClick={() => onDelete(run.id)}>
+                                    Delete
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+            <div className="flex gap-2 p-4 bg-gray-800">
+                <Button
+                    size="sm"
+                    variant="filled"
+                    color="blue"
+                    disabled={compared.length !== 2}
+                    onClick={() => setIsComparing(true)}
+                    className="flex-1"
+                >
+                    Compare {compared.length}/2
+                </Button>
+                <Button size="sm" variant="outline" disabled={runs.length === 0} onClick={onClear}>
+                    Clear
+                </Button>
+            </div>
+            {isComparing && compared.length === 2 && (
+                <RunComparison runs={[compared[0], compared[1]]} onClose={() => setIsComparing(false)} />
+            )}
+        </aside>
+    );
+}
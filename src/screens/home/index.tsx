@@ -1,629 +1,1943 @@
-import { ColorSwatch, Group } from '@mantine/core';
+import { ColorSwatch, Group, Menu } from '@mantine/core';
 import { Button } from '@/components/ui/button';
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import axios from 'axios';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import html2canvas from 'html2canvas';
+import { LazyBrush } from 'lazy-brush';
 import Draggable from 'react-draggable';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
 import { SWATCHES } from '@/constants';
+import {
+    getProvider,
+    loadProviderId,
+    saveProviderId,
+    SOLVER_PROVIDERS,
+    type SolverProviderId,
+} from '@/lib/api/providers';
+import { SolverError, type GeneratedResult } from '@/lib/api/solver';
+import {
+    addObjects,
+    editObject,
+    eraseObjects,
+    moveObjects,
+    reorderObjects,
+    type ZOrder,
+} from '@/lib/board/commands';
+import {
+    createDocument,
+    DOCUMENT_EXTENSION,
+    DOCUMENT_MIME_TYPE,
+    parseDocument,
+    serializeDocument,
+} from '@/lib/board/document';
+import { exportBoard, getExportBounds, renderToCanvas, type CardSnapshot, type ExportFormat } from '@/lib/board/export';
+import {
+    createGraph,
+    DEFAULT_GRAPH_SIZE,
+    functionFromResult,
+    isInsideGraph,
+    MIN_GRAPH_SIZE,
+    nextGraphColor,
+    panRange,
+} from '@/lib/board/graph';
+import { DEFAULT_PRESSURE, strokePieces } from '@/lib/board/ink';
+import {
+    DEFAULT_LAYERS,
+    isEditable,
+    layerOf,
+    LAYERS,
+    runObjects,
+    visibleObjects,
+    type BoardLayers,
+    type LayerId,
+    type LayerSettings,
+} from '@/lib/board/layers';
+import { recognizeShape } from '@/lib/board/recognize';
+import {
+    inkBoundsInRegion,
+    isUsableRegion,
+    rasterizeRegion,
+    regionBounds,
+    regionImageOrigin,
+    regionContains,
+    regionPolygon,
+    textItemsInRegion,
+    type Region,
+    type RegionShape,
+} from '@/lib/board/region';
+import {
+    constrainEnd,
+    DEFAULT_POLYGON_SIDES,
+    MAX_POLYGON_SIDES,
+    MIN_POLYGON_SIDES,
+    segmentAngle,
+    shapeStyle,
+    snapAngle,
+} from '@/lib/board/shapes';
+import {
+    GRID_SIZE,
+    loadSnapSettings,
+    saveSnapSettings,
+    snapToGrid,
+    type SnapSettings,
+} from '@/lib/board/snapping';
+import { prepareTextMath, TEXT_ALIGNS, TEXT_FONTS } from '@/lib/board/text';
+import {
+    boundsAt,
+    estimateCardSize,
+    leaderLine,
+    LEADER_LINE_STYLE,
+    placeCards,
+    type Size,
+} from '@/lib/board/placement';
+import {
+    getInkBounds,
+    getTextBounds,
+    hitTest,
+    renderBoard,
+    renderInk,
+    renderStroke,
+    renderStrokePiece,
+    unionBounds,
+    type Bounds,
+} from '@/lib/board/render';
+import {
+    createId,
+    objectsOfKind,
+    type BoardObject,
+    type DashStyle,
+    type GraphObject,
+    type LatexExpression,
+    type Point,
+    type ShapeKind,
+    type ShapeObject,
+    type StrokeObject,
+    type TextItem,
+} from '@/lib/board/types';
+import {
+    dragTransform,
+    handleAt,
+    handlePositions,
+    objectAt,
+    objectsInArea,
+    selectionBounds,
+    transformCommand,
+    transformObjects,
+    type HandleId,
+} from '@/lib/board/transform';
+import { useBoard } from '@/lib/board/useBoard';
+import {
+    centerOn,
+    DEFAULT_VIEWPORT,
+    fitBounds,
+    panBy,
+    toBoard,
+    visibleBounds,
+    zoomAt,
+    type Viewport,
+} from '@/lib/board/viewport';
+import {
+    applyRun,
+    deleteVariable,
+    dismissOverwrite,
+    EMPTY_VARIABLES,
+    fromValues,
+    renameVariable,
+    revertOverwrite,
+    setVariable,
+    togglePin,
+    type RunReference,
+    type VariableState,
+} from '@/lib/board/variables';
+import { loadUserName, saveUserName, useCollaboration, type CollabStatus } from '@/lib/collab/useCollaboration';
+import { numericVariables } from '@/lib/math/evaluate';
+import { resultToTex, typeset } from '@/lib/math/typeset';
+import { verifyResults, type Verification, type VerificationStatus } from '@/lib/math/verify';
+import { downloadBlob, toFileName } from '@/lib/download';
+import { getBoard, saveBoard as storeBoard } from '@/lib/storage/notebook';
+import { addRun, clearRuns, deleteRun, listRuns, type RunRecord } from '@/lib/storage/runs';
+import { getCommand, type CommandHandlers, type CommandId } from '@/lib/shortcuts/commands';
+import {
+    commandsForChord,
+    eventToChord,
+    formatChord,
+    isPlainChord,
+    loadKeymap,
+    saveKeymap,
+    type Keymap,
+} from '@/lib/shortcuts/keymap';
+import { applyHighContrast, loadHighContrast, saveHighContrast } from '@/lib/theme';
+import { createThumbnail, createThumbnailFromDataUrl } from '@/lib/thumbnail';
+import CommandPalette from '@/screens/home/command-palette';
+import FontSizeInput from '@/screens/home/font-size-input';
+import GraphPanel from '@/screens/home/graph-panel';
+import HistoryPanel from '@/screens/home/history-panel';
+import LayersPanel from '@/screens/home/layers-panel';
+import MathFormula from '@/screens/home/math-formula';
+import Minimap from '@/screens/home/minimap';
+import PresenceCursors from '@/screens/home/presence-cursors';
+import ResultAnnouncer from '@/screens/home/result-announcer';
+import ShortcutsSheet from '@/screens/home/shortcuts-sheet';
+import SolutionSteps from '@/screens/home/solution-steps';
+import TextItemView from '@/screens/home/text-item';
+import Toolbar from '@/screens/home/toolbar';
+import VariablesPanel from '@/screens/home/variables-panel';
 
 enum Tool {
     Draw = 'draw',
     Erase = 'erase',
     Text = 'text',
     Rectangle = 'rectangle',
-    Square = 'square',
     Circle = 'circle',
+    Ellipse = 'ellipse',
     Triangle = 'triangle',
+    Line = 'line',
+    Arrow = 'arrow',
+    RegularPolygon = 'regular-polygon',
+    Polygon = 'polygon',
+    Graph = 'graph',
+    Region = 'region',
+    Select = 'select',
 }
 
-interface GeneratedResult {
-    expr: string;
-    result: string;
-    assign?: boolean;
-}
+/** Shapes whose end turns in 15° steps with angle snapping on. */
+const ANGLE_SNAPPED_SHAPES: ShapeKind[] = ['line', 'arrow', 'regular-polygon'];
 
-interface TextItem {
-    id: number;
-    position: { x: number; y: number };
-    text: string;
-    fontSize: number;
-}
+/** Shapes drawn by dragging from `start` to `end`. Free polygons are placed corner by corner instead. */
+const SHAPE_TOOLS: Partial<Record<Tool, ShapeKind>> = {
+    [Tool.Rectangle]: 'rectangle',
+    [Tool.Circle]: 'circle',
+    [Tool.Ellipse]: 'ellipse',
+    [Tool.Triangle]: 'triangle',
+    [Tool.Line]: 'line',
+    [Tool.Arrow]: 'arrow',
+    [Tool.RegularPolygon]: 'regular-polygon',
+};
 
-interface LatexExpression {
-    id: number;
-    text: string;
-    position: { x: number; y: number };
-}
+/** The layer each drawing tool adds to; locked or hidden layers cannot be drawn on. */
+const TOOL_LAYERS: Partial<Record<Tool, LayerId>> = {
+    [Tool.Draw]: 'ink',
+    [Tool.Text]: 'text',
+    [Tool.Rectangle]: 'shapes',
+    [Tool.Circle]: 'shapes',
+    [Tool.Ellipse]: 'shapes',
+    [Tool.Triangle]: 'shapes',
+    [Tool.Line]: 'shapes',
+    [Tool.Arrow]: 'shapes',
+    [Tool.RegularPolygon]: 'shapes',
+    [Tool.Polygon]: 'shapes',
+    [Tool.Graph]: 'shapes',
+};
 
-declare global {
-    interface Window {
-        MathJax: {
-            Hub: {
-                Config: (config: object) => void;
-                Queue: (command: Array<() => void>) => void;
-            };
-        };
+/** The entries of the Shapes menu, in order. */
+const SHAPE_MENU: [Tool, CommandId][] = [
+    [Tool.Rectangle, 'tool.rectangle'],
+    [Tool.Ellipse, 'tool.ellipse'],
+    [Tool.Circle, 'tool.circle'],
+    [Tool.Triangle, 'tool.triangle'],
+    [Tool.RegularPolygon, 'tool.regularPolygon'],
+    [Tool.Polygon, 'tool.polygon'],
+    [Tool.Line, 'tool.line'],
+    [Tool.Arrow, 'tool.arrow'],
+];
+
+/** The style given to new text items, and changed on the selected one. */
+type TextStyle = Required<Pick<TextItem, 'bold' | 'italic' | 'fontFamily' | 'align'>>;
+const DEFAULT_TEXT_STYLE: TextStyle = { bold: false, italic: false, fontFamily: 'sans-serif', align: 'left' };
+
+const DASH_STYLES: { value: DashStyle; label: string }[] = [
+    { value: 'solid', label: 'Solid' },
+    { value: 'dashed', label: 'Dashed' },
+    { value: 'dotted', label: 'Dotted' },
+];
+const SNAP_OPTIONS: { key: keyof SnapSettings; label: string; command: CommandId }[] = [
+    { key: 'grid', label: 'Snap to grid', command: 'snap.grid' },
+    { key: 'angle', label: 'Snap angles', command: 'snap.angle' },
+    { key: 'measure', label: 'Keep measurements', command: 'snap.measure' },
+    { key: 'recognize', label: 'Recognize shapes', command: 'snap.recognize' },
+];
+/** Alpha appended to a swatch for fills, so ink under a filled shape stays readable. */
+const FILL_ALPHA = '59';
+
+const ERASER_RADIUS = 8;
+/** Space between a result card and the graph its function is plotted on. */
+const CARD_GRAPH_GAP = 24;
+/** How close (in screen pixels) to its first corner a click closes a polygon. */
+const POLYGON_CLOSE_RADIUS = 10;
+/** How far (in screen pixels) the pointer can wander before the lazy brush follows. */
+const SMOOTHING_RADIUS = 3;
+const SELECT_RADIUS = 6;
+const HANDLE_RADIUS = 8;
+const HANDLE_SIZE = 8;
+const AUTOSAVE_DELAY_MS = 500;
+/** How fast Ctrl+wheel and trackpad pinches zoom, per pixel of scroll. */
+const WHEEL_ZOOM_SPEED = 0.01;
+const WHEEL_LINE_HEIGHT = 16;
+const ZOOM_STEP = 1.25;
+
+/**
+ * A color as `<input type="color">` takes it; anything but six-digit hex shows as black.
+ */
+const toColorInput = (color: string) => (/^#[0-9a-f]{6}$/i.test(color) ? color : '#000000');
+
+/**
+ * How a result card is read out to the solver when the results layer is sent with Run.
+ */
+const cardText = (card: LatexExpression) => `${card.expr} = ${card.result}`;
+
+/**
+ * Builds the board object for one solver result.
+ */
+const createResultCard = (
+    data: GeneratedResult,
+    position: Point,
+    verification?: Verification,
+    anchor?: Point,
+): LatexExpression => ({
+    kind: 'latex',
+    id: createId(),
+    text: resultToTex(data.expr, data.result),
+    expr: data.expr,
+    result: data.result,
+    verification,
+    position,
+    anchor,
+    ...(data.steps ? { steps: data.steps } : {}),
+});
+
+const VERIFICATION_BADGES: Record<VerificationStatus, { label: string; className: string }> = {
+    verified: { label: '✓ Verified', className: 'bg-green-700 text-green-50' },
+    mismatch: { label: '✗ Mismatch', className: 'bg-red-700 text-red-50' },
+    unchecked: { label: '? Not checkable', className: 'bg-gray-600 text-gray-100' },
+};
+
+/**
+ * The badge for a card's check. A status this version does not know, say from a
+ * collaborator's newer build, shows as not checkable.
+ */
+const verificationBadge = (status: string) =>
+    VERIFICATION_BADGES[status as VerificationStatus] ?? VERIFICATION_BADGES.unchecked;
+
+/**
+ * Where the image a run sent starts on the board, so result boxes can be mapped back.
+ */
+const runImageOrigin = (run: Pick<RunRecord, 'region' | 'imageOrigin'>): Point =>
+    run.imageOrigin ?? (run.region ? regionImageOrigin(run.region) : { x: 0, y: 0 });
+
+/**
+ * A graph spanning a drag from `start` to `end`. A click, or a drag too small
+ * to read, makes a graph of the default size instead.
+ */
+const graphFromDrag = (start: Point, end: Point): GraphObject => {
+    const width = Math.abs(end.x - start.x);
+    const height = Math.abs(end.y - start.y);
+    if (width < MIN_GRAPH_SIZE || height < MIN_GRAPH_SIZE) {
+        return createGraph(createId(), start, DEFAULT_GRAPH_SIZE.width, DEFAULT_GRAPH_SIZE.height);
     }
+    return createGraph(createId(), { x: Math.min(start.x, end.x), y: Math.min(start.y, end.y) }, width, height);
+};
+
+/**
+ * Shows a graph's range as it will be once the pan in progress is dropped.
+ */
+const previewGraphPan = (objects: BoardObject[], pan: { id: string; from: Point; to: Point } | null): BoardObject[] =>
+    pan
+        ? objects.map((object) =>
+            object.id === pan.id && object.kind === 'graph'
+                ? { ...object, range: panRange(object, pan.to.x - pan.from.x, pan.to.y - pan.from.y) }
+                : object)
+        : objects;
+
+interface InputOptions {
+    shiftKey?: boolean;
+    tool?: Tool;
+    pressure?: number;
+}
+
+const COLLAB_STATUS_LABELS: Record<CollabStatus, string> = {
+    off: 'Not shared',
+    connecting: 'Connecting…',
+    connected: 'Live',
+    disconnected: 'Reconnecting…',
+};
+
+const isEditingText = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/** Commands a focused text field does itself: there, undo and redo apply to the typing, not the board. */
+const TEXT_FIELD_COMMANDS = new Set<CommandId>(['board.undo', 'board.redo']);
+
+/**
+ * Whether Space does something for the focused element, like pressing a button.
+ */
+const usesSpace = (target: EventTarget | null) =>
+    isEditingText(target)
+    || (target instanceof HTMLElement && target.closest('button, a[href], [role="button"], [role="radio"], [role="checkbox"]') !== null);
+
+/** Board pixels an arrow key moves a focused card or text item; Shift moves it further. */
+const KEYBOARD_MOVE_STEP = 10;
+const KEYBOARD_MOVE_STEP_LARGE = 50;
+const ARROW_OFFSETS: Record<string, Point> = {
+    ArrowLeft: { x: -1, y: 0 },
+    ArrowRight: { x: 1, y: 0 },
+    ArrowUp: { x: 0, y: -1 },
+    ArrowDown: { x: 0, y: 1 },
+};
+
+/**
+ * Outline and transform handles for the Select tool, plus the marquee while one is dragged.
+ */
+function SelectionOverlay({ bounds, marquee, zoom }: {
+    bounds: Bounds | null;
+    marquee: { from: Point; to: Point } | null;
+    zoom: number;
+}) {
+    const handles = bounds ? (Object.entries(handlePositions(bounds)) as [HandleId, Point][]) : [];
+    // Drawn in board coordinates; handles keep the same size on screen at any zoom.
+    const handleSize = HANDLE_SIZE / zoom;
+    return (
+        <svg className="absolute top-0 left-0 overflow-visible pointer-events-none" width={1} height={1} aria-hidden="true">
+            {bounds && (
+                <>
+                    <rect
+                        x={bounds.minX}
+                        y={bounds.minY}
+                        width={bounds.maxX - bounds.minX}
+                        height={bounds.maxY - bounds.minY}
+                        fill="none"
+                        stroke="#228be6"
+                        strokeDasharray="4 3"
+                        vectorEffect="non-scaling-stroke"
+                    />
+                    <line
+                        x1={(bounds.minX + bounds.maxX) / 2}
+                        y1={bounds.minY}
+                        x2={handlePositions(bounds).rotate.x}
+                        y2={handlePositions(bounds).rotate.y}
+                        stroke="#228be6"
+                        vectorEffect="non-scaling-stroke"
+                    />
+                    {handles.map(([id, position]) => (id === 'rotate' ? (
+                        <circle
+                            key={id}
+                            cx={position.x}
+                            cy={position.y}
+                            r={handleSize / 2 + 1 / zoom}
+                            fill="white"
+                            stroke="#228be6"
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    ) : (
+                        <rect
+                            key={id}
+                            x={position.x - handleSize / 2}
+                            y={position.y - handleSize / 2}
+                            width={handleSize}
+                            height={handleSize}
+                            fill="white"
+                            stroke="#228be6"
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    )))}
+                </>
+            )}
+            {marquee && (
+                <rect
+                    x={Math.min(marquee.from.x, marquee.to.x)}
+                    y={Math.min(marquee.from.y, marquee.to.y)}
+                    width={Math.abs(marquee.to.x - marquee.from.x)}
+                    height={Math.abs(marquee.to.y - marquee.from.y)}
+                    fill="rgba(34, 139, 230, 0.08)"
+                    stroke="#228be6"
+                    vectorEffect="non-scaling-stroke"
+                />
+            )}
+        </svg>
+    );
 }
 
 export default function Home() {
+    const { id } = useParams<{ id: string }>();
+    // Key by id so switching boards starts from a fresh canvas and history.
+    return <Board key={id} boardId={id ?? ''} />;
+}
+
+function Board({ boardId }: { boardId: string }) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const ctxRef = useRef<CanvasRenderingContext2D | null>(null); // New ref for context
     const [isDrawing, setIsDrawing] = useState<boolean>(false);
     const [color, setColor] = useState<string>('rgb(0, 0, 0)');
     const [strokeWidth, setStrokeWidth] = useState<number>(3);
+    const [fill, setFill] = useState<string | null>(null);
+    const [dash, setDash] = useState<DashStyle>('solid');
+    const [polygonSides, setPolygonSides] = useState<number>(DEFAULT_POLYGON_SIDES);
+    // The free polygon being placed; its last point follows the pointer.
+    const [polygonDraft, setPolygonDraft] = useState<ShapeObject | null>(null);
+    const [snap, setSnap] = useState<SnapSettings>(loadSnapSettings);
+    const gridSize = snap.grid ? GRID_SIZE : undefined;
+    // The graph the graph panel edits, and a drag moving its view with the Graph tool.
+    const [activeGraphId, setActiveGraphId] = useState<string | null>(null);
+    const [graphPan, setGraphPan] = useState<{ id: string; from: Point; to: Point } | null>(null);
     const [currentTool, setCurrentTool] = useState<Tool>(Tool.Draw);
-    const [undoStack, setUndoStack] = useState<string[]>([]);
-    const [redoStack, setRedoStack] = useState<string[]>([]);
-    const [reset, setReset] = useState<boolean>(false);
-    const [dictOfVars, setDictOfVars] = useState<{ [key: string]: string }>({});
-    const [result, setResult] = useState<GeneratedResult | undefined>(undefined);
-    const [latexExpressions, setLatexExpressions] = useState<LatexExpression[]>([]);
-    const [textItems, setTextItems] = useState<TextItem[]>([]);
-    const [nextTextItemId, setNextTextItemId] = useState<number>(1);
+    const board = useBoard();
+    const { objects, execute, undo, redo, load: loadBoard } = board;
+    const [boardName, setBoardName] = useState<string>('Untitled board');
+    const [isSolving, setIsSolving] = useState<boolean>(false);
+    const [solverError, setSolverError] = useState<SolverError | null>(null);
+    const solveControllerRef = useRef<AbortController | null>(null);
+    const [providerId, setProviderId] = useState<SolverProviderId>(loadProviderId);
+    const [loadState, setLoadState] = useState<'loading' | 'ready' | 'missing'>('loading');
+    const [variables, setVariables] = useState<VariableState>(EMPTY_VARIABLES);
+    const dictOfVars = variables.values;
+    const numericVars = useMemo(() => numericVariables(dictOfVars), [dictOfVars]);
+    const [openPanel, setOpenPanel] = useState<'variables' | 'history' | 'layers' | null>(null);
+    const [layers, setLayers] = useState<BoardLayers>(DEFAULT_LAYERS);
+    const [highContrast, setHighContrast] = useState(loadHighContrast);
+    // The cards of the latest run, read out by the live region.
+    const [announcedCards, setAnnouncedCards] = useState<LatexExpression[]>([]);
+    const [runs, setRuns] = useState<RunRecord[]>([]);
+    const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+    const [commandOverlay, setCommandOverlay] = useState<'palette' | 'shortcuts' | null>(null);
+    // Collaboration is on while the URL has `?collab`, so the address is the invitation link.
+    const [searchParams, setSearchParams] = useSearchParams();
+    const isCollaborating = searchParams.has('collab');
+    // Read when a board finishes loading, which must not start over when a session starts or ends.
+    const isCollaboratingRef = useRef(isCollaborating);
+    isCollaboratingRef.current = isCollaborating;
+    const [userName, setUserName] = useState<string>(loadUserName);
+    const { status: collabStatus, peers, setCursor, setSolving } = useCollaboration({
+        room: isCollaborating && loadState === 'ready' ? boardId : null,
+        userName,
+        objects,
+        variables,
+        onRemoteObjects: board.sync,
+        onRemoteVariables: setVariables,
+    });
+    const latexExpressions = objectsOfKind(objects, 'latex');
+    const textItems = objectsOfKind(objects, 'text');
+    // What the Select tool, the eraser and dragging can reach: objects on shown, unlocked layers.
+    const editableObjects = useMemo(() => objects.filter((object) => isEditable(object, layers)), [objects, layers]);
+    const cardIds = latexExpressions.map((expr) => expr.id).join(' ');
+    const [cardSizes, setCardSizes] = useState<Record<string, Size>>({});
+    const cardBounds = latexExpressions.map((card) =>
+        boundsAt(card.position, cardSizes[card.id] ?? estimateCardSize(card.text)));
+    // The board as last rendered, for code that resumes after an await.
+    const latestBoardRef = useRef({ objects, cardSizes });
+    latestBoardRef.current = { objects, cardSizes };
     const [fontSize, setFontSize] = useState<number>(16);
-    const [selectedTextItemId, setSelectedTextItemId] = useState<number | null>(null);
-    const [isDragging, setIsDragging] = useState<boolean>(false);
-    const [startPoint, setStartPoint] = useState<{ x: number; y: number } | null>(null);
-    const MAX_STACK_SIZE = 20;
+    const [selectedTextItemId, setSelectedTextItemId] = useState<string | null>(null);
+    const [textStyle, setTextStyle] = useState<TextStyle>(DEFAULT_TEXT_STYLE);
+    const [startPoint, setStartPoint] = useState<Point | null>(null);
+    const [regionShape, setRegionShape] = useState<RegionShape>('rectangle');
+    const [region, setRegion] = useState<Region | null>(null);
+    const [draftRegion, setDraftRegion] = useState<Region | null>(null);
+    const lastRunRegionRef = useRef<Region | null>(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [selectionDrag, setSelectionDrag] = useState<{
+        handle: HandleId | 'move' | 'marquee';
+        from: Point;
+        to: Point;
+        bounds: Bounds | null;
+        constrain: boolean;
+    } | null>(null);
+    // Ids can go stale when an undo removes a selected object or its layer is hidden or locked.
+    const selection = useMemo(
+        () => selectedIds.filter((id) => editableObjects.some((object) => object.id === id)),
+        [selectedIds, editableObjects],
+    );
+    const dragPreview = selectionDrag && selectionDrag.handle !== 'marquee' && selectionDrag.bounds
+        ? dragTransform(selectionDrag.handle, selectionDrag.bounds, selectionDrag.from, selectionDrag.to, selectionDrag.constrain)
+        : null;
+    const displayedObjects = previewGraphPan(
+        dragPreview ? transformObjects(objects, selection, dragPreview) : objects,
+        graphPan,
+    );
+    const renderOptions = useMemo(() => ({ gridSize, layers }), [gridSize, layers]);
+    const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+    // CSS size of the canvas and the device pixel ratio its backing store was sized for.
+    const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0, dpr: 1 });
+    const renderView = useMemo(
+        () => ({ x: viewport.x, y: viewport.y, scale: viewport.zoom * canvasSize.dpr }),
+        [viewport, canvasSize.dpr],
+    );
+    const [spaceHeld, setSpaceHeld] = useState<boolean>(false);
+    // The pointer panning the board with its last screen point, and the two-finger gesture in progress.
+    const panRef = useRef<{ pointerId: number; pointerType: string; last: Point } | null>(null);
+    const pinchRef = useRef<{ center: Point; distance: number } | null>(null);
+    // Screen positions of the fingers on the canvas.
+    const touchesRef = useRef<Map<number, Point>>(new Map());
+    // The pointer whose input is in progress, and the tool it is using.
+    const activePointerRef = useRef<{ pointerId: number; pointerType: string } | null>(null);
+    const inputToolRef = useRef<Tool>(Tool.Draw);
+    const penUsedRef = useRef<boolean>(false);
+    const canvasContainerRef = useRef<HTMLDivElement>(null);
+    const strokePointsRef = useRef<Point[]>([]);
+    const strokePressuresRef = useRef<number[] | null>(null);
+    // Strokes follow a lazy brush that trails the pointer, so small tremors are ignored.
+    const [lazyBrush] = useState(() => new LazyBrush({ radius: SMOOTHING_RADIUS, enabled: true }));
+    const erasedIdsRef = useRef<Set<string>>(new Set());
     const latexContainerRef = useRef<HTMLDivElement>(null);
     const textContainerRef = useRef<HTMLDivElement>(null);
+    const openInputRef = useRef<HTMLInputElement>(null);
 
-    /**
-     * Function to render LaTeX expressions onto the designated container.
-     * This utilizes MathJax for typesetting.
-     *
-     * @param expression - The LaTeX expression to render.
-     * @param answer - The corresponding answer or result.
-     */
-    const renderLatexToCanvas = (expression: string, answer: string) => {
-        if (latexContainerRef.current && window.MathJax) {
-            latexContainerRef.current.innerHTML += `<div>${expression} = ${answer}</div>`;
-            window.MathJax.Hub.Queue(['Typeset', window.MathJax.Hub, latexContainerRef.current]);
-        }
-    };
-
-    // Canvas Initialization and MathJax Script Loading
+    // Canvas Initialization: keep the backing store at the on-screen size in
+    // device pixels, through window resizes and moves between screens.
     useEffect(() => {
         const canvas = canvasRef.current;
-        if (canvas) {
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                ctxRef.current = ctx; // Store context in ref
-                canvas.width = window.innerWidth;
-                canvas.height = window.innerHeight - canvas.offsetTop;
-                ctx.lineCap = 'round';
-                ctx.strokeStyle = color; // Initial strokeStyle
-                ctx.lineWidth = strokeWidth; // Initial lineWidth
-                ctx.fillStyle = 'white';
-                ctx.fillRect(0, 0, canvas.width, canvas.height);
-            }
-        }
+        const container = canvasContainerRef.current;
+        if (!canvas || !container) return;
+        ctxRef.current = canvas.getContext('2d'); // Store context in ref
+        const resize = () => {
+            const dpr = window.devicePixelRatio || 1;
+            const width = container.clientWidth;
+            const height = container.clientHeight;
+            canvas.width = Math.round(width * dpr);
+            canvas.height = Math.round(height * dpr);
+            // Resizing clears the canvas; the new size triggers a redraw.
+            setCanvasSize({ width, height, dpr });
+        };
+        // A resolution query only matches one ratio, so it is replaced whenever the ratio changes.
+        let resolution: MediaQueryList | null = null;
+        const watchResolution = () => {
+            resolution?.removeEventListener('change', handleResolutionChange);
+            resolution = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`);
+            resolution.addEventListener('change', handleResolutionChange);
+        };
+        const handleResolutionChange = () => {
+            resize();
+            watchResolution();
+        };
+        const observer = new ResizeObserver(resize);
+        observer.observe(container);
+        watchResolution();
+        resize();
+
+        return () => {
+            observer.disconnect();
+            resolution?.removeEventListener('change', handleResolutionChange);
+            ctxRef.current = null; // Clear context ref
+        };
+    }, []); // Run only once on mount
 
-        const script = document.createElement('script');
-        script.src =
-            'https://cdnjs.cloudflare.com/ajax/libs/mathjax/2.7.9/MathJax.js?config=TeX-MML-AM_CHTML';
-        script.async = true;
-        document.head.appendChild(script);
-        script.onload = () => {
-            window.MathJax.Hub.Config({
-                tex2jax: { inlineMath: [['$', '$'], ['\\(', '\\)']] },
+    useEffect(() => {
+        let cancelled = false;
+        getBoard(boardId)
+            .then((stored) => {
+                if (cancelled) return;
+                if (!stored) {
+                    // A shared board we have no copy of yet: start empty and let the session fill it in.
+                    if (isCollaboratingRef.current) {
+                        setBoardName('Shared board');
+                        setLoadState('ready');
+                    } else {
+                        setLoadState('missing');
+                    }
+                    return;
+                }
+                loadBoard(stored.document.objects);
+                setVariables(fromValues(stored.document.variables, stored.document.variableInfo));
+                setLayers(stored.document.layers ?? DEFAULT_LAYERS);
+                setBoardName(stored.document.name);
+                setLoadState('ready');
+            })
+            .catch((error) => {
+                console.error('Notebook Error:', error);
+                if (!cancelled) setLoadState('missing');
             });
+        return () => {
+            cancelled = true;
         };
+    }, [boardId, loadBoard]);
 
+    useEffect(() => {
+        let cancelled = false;
+        listRuns(boardId)
+            .then((stored) => {
+                if (!cancelled) setRuns(stored);
+            })
+            .catch((error) => {
+                console.error('History Error:', error);
+            });
         return () => {
-            if (canvasRef.current) {
-                const ctx = canvasRef.current.getContext('2d');
-                if (ctx) {
-                    ctxRef.current = null; // Clear context ref
-                }
-            }
-            document.head.removeChild(script);
+            cancelled = true;
         };
-    }, []); // Run only once on mount
+    }, [boardId]);
+
+    // Persist every change to the notebook once the board has loaded.
+    useEffect(() => {
+        if (loadState !== 'ready') return;
+        const timeout = window.setTimeout(() => {
+            const source = { objects: visibleObjects(objects, layers), cards: [] };
+            const thumbnail = createThumbnail(renderToCanvas(source, getExportBounds(source)));
+            const document = createDocument(boardName, objects, variables.values, variables.info, layers);
+            storeBoard(boardId, document, thumbnail).catch((error) => {
+                console.error('Notebook Error:', error);
+            });
+        }, AUTOSAVE_DELAY_MS);
+        return () => window.clearTimeout(timeout);
+    }, [loadState, boardId, boardName, objects, variables, layers]);
 
-    // Update strokeWidth and color without resetting the canvas
+    // The canvas is a pure projection of the board model: redraw whenever it or the view changes.
     useEffect(() => {
         if (ctxRef.current) {
-            ctxRef.current.strokeStyle = color;
-            ctxRef.current.lineWidth = strokeWidth;
+            renderBoard(ctxRef.current, visibleObjects(displayedObjects, layers), renderView, renderOptions);
+            // Shapes being drawn always show their measurements.
+            if (polygonDraft) renderInk(ctxRef.current, [{ ...polygonDraft, measure: true }]);
         }
-    }, [strokeWidth, color]);
+    }, [displayedObjects, renderView, canvasSize, polygonDraft, layers, renderOptions]);
 
+    // A polygon left half-placed when switching tools is dropped.
     useEffect(() => {
-        if (result) {
-            renderLatexToCanvas(result.expr, result.result);
-        }
-    }, [result]);
+        setPolygonDraft(null);
+    }, [currentTool]);
 
+    // Wheel scrolls the board; Ctrl+wheel (and trackpad pinch, which arrives
+    // as one) zooms around the pointer. React's wheel listener is passive, so
+    // the page would scroll or zoom as well.
     useEffect(() => {
-        if (reset) {
-            resetCanvas();
-            setResult(undefined);
-            setDictOfVars({});
-            setUndoStack([]);
-            setRedoStack([]);
-            setTextItems([]);
-            setReset(false);
-            setLatexExpressions([]);
-        }
-    }, [reset]);
-
-    const resetCanvas = () => {
-        const canvas = canvasRef.current;
-        if (canvas && ctxRef.current) {
-            const ctx = ctxRef.current;
-            ctx.clearRect(0, 0, canvas.width, canvas.height);
-            ctx.fillStyle = 'white';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        const container = canvasContainerRef.current;
+        if (!container) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const unit = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1;
+            if (e.ctrlKey || e.metaKey) {
+                const rect = container.getBoundingClientRect();
+                const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+                setViewport((prev) => zoomAt(prev, point, Math.exp(-e.deltaY * unit * WHEEL_ZOOM_SPEED)));
+            } else {
+                setViewport((prev) => panBy(prev, -e.deltaX * unit, -e.deltaY * unit));
+            }
+        };
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, []);
+
+    useEffect(() => {
+        applyHighContrast(highContrast);
+        saveHighContrast(highContrast);
+    }, [highContrast]);
+
+    // Holding space turns any tool into a hand for panning.
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || usesSpace(e.target)) return;
+            e.preventDefault();
+            setSpaceHeld(true);
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code === 'Space') setSpaceHeld(false);
+        };
+        const release = () => setSpaceHeld(false);
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', release);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', release);
+        };
+    }, []);
+
+    /**
+     * Clears the board and the variables. Undo brings back the objects; the
+     * variables are not part of the undo history.
+     */
+    const resetBoard = () => {
+        if (objects.length > 0) {
+            execute(eraseObjects(objects, objects.map((object) => object.id)));
         }
+        setVariables(EMPTY_VARIABLES);
     };
 
-    const saveState = () => {
-        const canvas = canvasRef.current;
-        if (canvas) {
-            const dataURL = canvas.toDataURL();
-            setUndoStack((prev) => {
-                const newStack = [...prev, dataURL];
-                if (newStack.length > MAX_STACK_SIZE) {
-                    newStack.shift();
-                }
-                return newStack;
+    const eraseAt = (point: Point) => {
+        const hits = editableObjects.filter(
+            (object) => !erasedIdsRef.current.has(object.id) && hitTest(object, point, ERASER_RADIUS / viewport.zoom),
+        );
+        if (hits.length === 0 || !ctxRef.current) return;
+        hits.forEach((object) => erasedIdsRef.current.add(object.id));
+        renderBoard(
+            ctxRef.current,
+            visibleObjects(objects, layers).filter((object) => !erasedIdsRef.current.has(object.id)),
+            renderView,
+            renderOptions,
+        );
+    };
+
+    /**
+     * Starts a drag with the Select tool: on a handle it transforms the
+     * selection, on an object or the selection it moves it, and elsewhere it
+     * draws a marquee. Shift adds to or removes from the selection.
+     */
+    const beginSelection = (point: Point, shiftKey: boolean) => {
+        const bounds = selectionBounds(objects, selection);
+        const handle = bounds && handleAt(bounds, point, HANDLE_RADIUS / viewport.zoom);
+        const drag = { from: point, to: point, constrain: false };
+        if (bounds && handle) {
+            setSelectionDrag({ ...drag, handle, bounds });
+            return;
+        }
+        const hit = objectAt(editableObjects, point, SELECT_RADIUS / viewport.zoom);
+        if (hit) {
+            if (shiftKey) {
+                setSelectedIds(selection.includes(hit.id)
+                    ? selection.filter((id) => id !== hit.id)
+                    : [...selection, hit.id]);
+                return;
+            }
+            const next = selection.includes(hit.id) ? selection : [hit.id];
+            setSelectedIds(next);
+            setSelectionDrag({ ...drag, handle: 'move', bounds: selectionBounds(objects, next) });
+        } else if (bounds && !shiftKey && point.x >= bounds.minX && point.x <= bounds.maxX
+            && point.y >= bounds.minY && point.y <= bounds.maxY) {
+            setSelectionDrag({ ...drag, handle: 'move', bounds });
+        } else {
+            if (!shiftKey) setSelectedIds([]);
+            setSelectionDrag({ ...drag, handle: 'marquee', bounds: null });
+        }
+    };
+
+    const endSelection = () => {
+        if (!selectionDrag) return;
+        const { handle, from, to, bounds, constrain } = selectionDrag;
+        setSelectionDrag(null);
+        if (handle === 'marquee') {
+            const picked = objectsInArea(editableObjects, {
+                minX: Math.min(from.x, to.x),
+                minY: Math.min(from.y, to.y),
+                maxX: Math.max(from.x, to.x),
+                maxY: Math.max(from.y, to.y),
             });
-            setRedoStack([]);
+            setSelectedIds((prev) => [...new Set([...prev, ...picked])]);
+        } else if (bounds && (from.x !== to.x || from.y !== to.y) && selection.length > 0) {
+            execute(transformCommand(objects, selection, dragTransform(handle, bounds, from, to, constrain)));
         }
     };
 
-    const undo = useCallback(() => {
-        if (undoStack.length === 0) return;
-        const canvas = canvasRef.current;
-        if (canvas && ctxRef.current) {
-            const ctx = ctxRef.current;
-            const lastState = undoStack[undoStack.length - 1];
-            setUndoStack((prev) => prev.slice(0, prev.length - 1));
-            setRedoStack((prev) => [...prev, canvas.toDataURL()]);
-            const img = new Image();
-            img.src = lastState;
-            img.onload = () => {
-                ctx.clearRect(0, 0, canvas.width, canvas.height);
-                ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-            };
+    const deleteSelection = useCallback(() => {
+        if (selection.length === 0) return;
+        execute(eraseObjects(objects, selection));
+        setSelectedIds([]);
+    }, [execute, objects, selection]);
+
+    const reorderSelection = (placement: ZOrder) => {
+        const command = reorderObjects(objects, selection, placement);
+        if (command) execute(command);
+    };
+
+    /**
+     * The stroke being drawn, as it would be added to the board.
+     */
+    const currentStroke = (): StrokeObject => ({
+        kind: 'stroke',
+        id: createId(),
+        points: strokePointsRef.current,
+        ...(strokePressuresRef.current ? { pressures: strokePressuresRef.current } : {}),
+        color,
+        width: strokeWidth,
+    });
+
+    const snapPoint = (point: Point): Point => (snap.grid ? snapToGrid(point) : point);
+
+    /**
+     * A shape in the current drawing style, as it would be added to the board.
+     * Shift constrains it, e.g. to a square or a 15° angle; otherwise angle
+     * snapping turns lines and arrows in 15° steps, and grid snapping puts its
+     * ends on the grid.
+     */
+    const createShape = (shape: ShapeKind, start: Point, end: Point, shiftKey: boolean): ShapeObject => {
+        const from = snapPoint(start);
+        const to = snapPoint(end);
+        return {
+            kind: 'shape',
+            id: createId(),
+            shape,
+            start: from,
+            end: shiftKey
+                ? constrainEnd(shape, from, to)
+                : snap.angle && ANGLE_SNAPPED_SHAPES.includes(shape) ? snapAngle(from, to) : to,
+            color,
+            width: strokeWidth,
+            ...shapeStyle(shape, { fill, dash, sides: polygonSides, measure: snap.measure }),
+        };
+    };
+
+    /**
+     * Where the next corner of a free polygon goes for the pointer at `point`.
+     * With Shift or angle snapping, the new edge turns from the previous one
+     * in 15° steps, so right angles are easy to draw.
+     */
+    const nextPolygonCorner = (corners: Point[], point: Point, shiftKey: boolean): Point => {
+        const last = corners[corners.length - 1];
+        if (!shiftKey && !snap.angle) return snapPoint(point);
+        const reference = corners.length >= 2 ? segmentAngle(corners[corners.length - 2], last) : 0;
+        return snapAngle(last, snapPoint(point), reference);
+    };
+
+    /**
+     * Places a corner of a free polygon. Clicking near the first corner closes it.
+     */
+    const addPolygonCorner = (point: Point, shiftKey: boolean) => {
+        const corners = polygonDraft?.points?.slice(0, -1);
+        if (!polygonDraft || !corners) {
+            const first = snapPoint(point);
+            setPolygonDraft({ ...createShape('polygon', first, first, false), points: [first, first] });
+            return;
+        }
+        const first = corners[0];
+        if (corners.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) <= POLYGON_CLOSE_RADIUS / viewport.zoom) {
+            finishPolygon(corners);
+            return;
         }
-    }, [undoStack]);
+        const corner = nextPolygonCorner(corners, point, shiftKey);
+        setPolygonDraft({ ...polygonDraft, end: corner, points: [...corners, corner, corner] });
+    };
 
-    const redo = useCallback(() => {
-        if (redoStack.length === 0) return;
-        const canvas = canvasRef.current;
-        if (canvas && ctxRef.current) {
-            const ctx = ctxRef.current;
-            const lastState = redoStack[redoStack.length - 1];
-            setRedoStack((prev) => prev.slice(0, prev.length - 1));
-            setUndoStack((prev) => [...prev, canvas.toDataURL()]);
-            const img = new Image();
-            img.src = lastState;
-            img.onload = () => {
-                ctx.clearRect(0, 0, canvas.width, canvas.height);
-                ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-            };
+    const movePolygonPointer = (point: Point, shiftKey: boolean) => {
+        const corners = polygonDraft?.points?.slice(0, -1);
+        if (!polygonDraft || !corners) return;
+        setPolygonDraft({ ...polygonDraft, points: [...corners, nextPolygonCorner(corners, point, shiftKey)] });
+    };
+
+    const changeSnap = (patch: Partial<SnapSettings>) => {
+        const next = { ...snap, ...patch };
+        setSnap(next);
+        saveSnapSettings(next);
+    };
+
+    /**
+     * Shows or hides the measurements of the selected shapes, as one undoable step.
+     */
+    const toggleSelectionMeasurements = () => {
+        const measure = !selectedShapes.every((shape) => shape.measure);
+        execute({ type: 'batch', commands: selectedShapes.map((shape) => editObject(shape, { measure })) });
+    };
+
+    /**
+     * Adds the polygon placed so far to the board, if it has at least three corners.
+     */
+    const finishPolygon = (corners = polygonDraft?.points?.slice(0, -1) ?? []) => {
+        // A double-click places its last corner twice.
+        const distinct = corners.filter(
+            (corner, index) => index === 0 || Math.hypot(corner.x - corners[index - 1].x, corner.y - corners[index - 1].y) > 1,
+        );
+        if (polygonDraft && distinct.length >= 3) {
+            execute(addObjects(objects, [{
+                ...polygonDraft,
+                start: distinct[0],
+                end: distinct[distinct.length - 1],
+                points: distinct,
+            }]));
         }
-    }, [redoStack]);
+        setPolygonDraft(null);
+    };
 
-    const startDrawing = (e: React.MouseEvent<HTMLCanvasElement>) => {
-        if (![Tool.Draw, Tool.Erase, Tool.Rectangle, Tool.Circle, Tool.Triangle, Tool.Square].includes(currentTool)) return;
-        saveState();
-        const { offsetX, offsetY } = e.nativeEvent;
-        if (currentTool === Tool.Draw || currentTool === Tool.Erase) {
+    /**
+     * Whether the tool's layer takes new objects: tools that add to a hidden or
+     * locked layer do nothing.
+     */
+    const canDrawWith = (tool: Tool) => {
+        const layer = TOOL_LAYERS[tool];
+        return !layer || (layers[layer].visible && !layers[layer].locked);
+    };
+
+    const toolLayerNotice = (tool: Tool) => {
+        const id = TOOL_LAYERS[tool];
+        const label = LAYERS.find((layer) => layer.id === id)?.label;
+        return id && `The ${label} layer is ${layers[id].visible ? 'locked' : 'hidden'}. Change it in the Layers panel to draw here.`;
+    };
+
+    const changeLayer = (id: LayerId, patch: Partial<LayerSettings>) => {
+        setLayers((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+    };
+
+    /**
+     * Starts a stroke, erase, shape, region or selection drag at `point`.
+     * `tool` overrides the current tool, e.g. for a pen's eraser button, and
+     * `pressure` is only given for pressure-sensitive pens.
+     */
+    const beginInput = (point: Point, { shiftKey = false, tool = currentTool, pressure }: InputOptions = {}) => {
+        // Text items are placed by clicking instead.
+        if (tool === Tool.Text || !canDrawWith(tool)) return;
+        inputToolRef.current = tool;
+        if (tool === Tool.Polygon) {
+            addPolygonCorner(point, shiftKey);
+        } else if (tool === Tool.Graph) {
+            // Dragging inside a graph moves its view; anywhere else draws a new one.
+            const graph = [...objectsOfKind(editableObjects, 'graph')].reverse().find((candidate) => isInsideGraph(candidate, point));
+            if (graph) {
+                setActiveGraphId(graph.id);
+                setGraphPan({ id: graph.id, from: point, to: point });
+            } else {
+                setStartPoint(point);
+            }
+        } else if (tool === Tool.Select) {
+            beginSelection(point, shiftKey);
+        } else if (tool === Tool.Region) {
+            setRegion(null);
+            setDraftRegion(
+                regionShape === 'rectangle'
+                    ? { shape: 'rectangle', start: point, end: point }
+                    : { shape: 'lasso', points: [point] },
+            );
+        } else if (tool === Tool.Draw) {
+            strokePointsRef.current = [point];
+            strokePressuresRef.current = pressure === undefined ? null : [pressure];
+            lazyBrush.setRadius(SMOOTHING_RADIUS / viewport.zoom);
+            lazyBrush.update(point, { both: true });
             if (ctxRef.current) {
                 const ctx = ctxRef.current;
-                ctx.beginPath();
-                ctx.moveTo(offsetX, offsetY);
-                setIsDrawing(true);
+                ctx.lineCap = 'round';
+                ctx.lineJoin = 'round';
+                renderStroke(ctx, currentStroke());
             }
+            setIsDrawing(true);
+        } else if (tool === Tool.Erase) {
+            erasedIdsRef.current = new Set();
+            eraseAt(point);
+            setIsDrawing(true);
         } else {
-            setStartPoint({ x: offsetX, y: offsetY });
+            setStartPoint(point);
         }
     };
 
-    const draw = (e: React.MouseEvent<HTMLCanvasElement>) => {
-        if (isDrawing) {
-            if (ctxRef.current) {
-                const ctx = ctxRef.current;
-                if (currentTool === Tool.Erase) {
-                    ctx.globalCompositeOperation = 'destination-out';
-                    ctx.strokeStyle = 'rgba(0,0,0,1)';
-                } else {
-                    ctx.globalCompositeOperation = 'source-over';
-                    ctx.strokeStyle = color;
-                }
-                ctx.lineWidth = strokeWidth;
-                ctx.lineTo(e.nativeEvent.offsetX, e.nativeEvent.offsetY);
-                ctx.stroke();
+    const continueInput = (point: Point, { shiftKey = false, pressure }: InputOptions = {}) => {
+        const tool = inputToolRef.current;
+        if (selectionDrag) {
+            setSelectionDrag({ ...selectionDrag, to: point, constrain: shiftKey });
+        } else if (graphPan) {
+            setGraphPan({ ...graphPan, to: point });
+        } else if (draftRegion) {
+            setDraftRegion(
+                draftRegion.shape === 'rectangle'
+                    ? { ...draftRegion, end: point }
+                    : { ...draftRegion, points: [...draftRegion.points, point] },
+            );
+        } else if (isDrawing) {
+            if (tool === Tool.Erase) {
+                eraseAt(point);
+                return;
             }
-        } else if (startPoint && [Tool.Rectangle, Tool.Circle, Tool.Triangle, Tool.Square].includes(currentTool)) {
-            const canvas = canvasRef.current;
-            if (canvas && ctxRef.current) {
-                const ctx = ctxRef.current;
-                resetCanvas();
-                if (undoStack.length > 0) {
-                    const img = new Image();
-                    img.src = undoStack[undoStack.length - 1];
-                    img.onload = () => {
-                        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-                        ctx.strokeStyle = color;
-                        ctx.lineWidth = strokeWidth;
-                        ctx.beginPath();
-                        drawShape(ctx, currentTool, startPoint, { x: e.nativeEvent.offsetX, y: e.nativeEvent.offsetY });
-                        ctx.stroke();
-                    };
-                }
+            lazyBrush.update(point);
+            if (!lazyBrush.brushHasMoved()) return;
+            const { x, y } = lazyBrush.getBrushCoordinates();
+            strokePointsRef.current.push({ x, y });
+            strokePressuresRef.current?.push(pressure ?? DEFAULT_PRESSURE);
+            // The newest curve still changes with the next sample, so draw the one before it.
+            const pieces = strokePieces(currentStroke());
+            if (pieces.length >= 2 && ctxRef.current) {
+                ctxRef.current.strokeStyle = color;
+                renderStrokePiece(ctxRef.current, pieces[pieces.length - 2]);
             }
+        } else if (startPoint && SHAPE_TOOLS[tool] && ctxRef.current) {
+            renderBoard(ctxRef.current, visibleObjects(objects, layers), renderView, renderOptions);
+            renderInk(ctxRef.current, [{ ...createShape(SHAPE_TOOLS[tool], startPoint, point, shiftKey), measure: true }]);
+        } else if (startPoint && tool === Tool.Graph && ctxRef.current) {
+            renderBoard(ctxRef.current, visibleObjects(objects, layers), renderView, renderOptions);
+            renderInk(ctxRef.current, [graphFromDrag(snapPoint(startPoint), snapPoint(point))]);
         }
     };
 
-    const stopDrawing = (e: React.MouseEvent<HTMLCanvasElement>) => {
-        if (isDrawing) {
+    const endInput = (point: Point | null, { shiftKey = false, pressure }: InputOptions = {}) => {
+        const tool = inputToolRef.current;
+        if (selectionDrag) {
+            endSelection();
+        } else if (graphPan) {
+            const { id, from, to } = graphPan;
+            const graph = objectsOfKind(objects, 'graph').find((candidate) => candidate.id === id);
+            setGraphPan(null);
+            if (graph && (from.x !== to.x || from.y !== to.y)) {
+                execute(editObject(graph, { range: panRange(graph, to.x - from.x, to.y - from.y) }));
+            }
+        } else if (draftRegion) {
+            if (isUsableRegion(draftRegion)) {
+                setRegion(draftRegion);
+            }
+            setDraftRegion(null);
+        } else if (isDrawing) {
             setIsDrawing(false);
-            if (ctxRef.current) {
-                const ctx = ctxRef.current;
-                ctx.closePath();
-                ctx.globalCompositeOperation = 'source-over';
+            if (tool === Tool.Erase) {
+                if (erasedIdsRef.current.size > 0) {
+                    execute(eraseObjects(objects, [...erasedIdsRef.current]));
+                }
+                erasedIdsRef.current = new Set();
+            } else if (strokePointsRef.current.length > 0) {
+                // Let the stroke catch up with the lazy brush, so it ends where the pen lifted.
+                const last = strokePointsRef.current[strokePointsRef.current.length - 1];
+                if (point && (point.x !== last.x || point.y !== last.y)) {
+                    strokePointsRef.current.push(point);
+                    strokePressuresRef.current?.push(pressure ?? DEFAULT_PRESSURE);
+                }
+                const stroke = currentStroke();
+                strokePointsRef.current = [];
+                strokePressuresRef.current = null;
+                execute(addObjects(objects, [stroke]));
+                // Recognized shapes go to the shapes layer, so it has to take them.
+                const fit = snap.recognize && layers.shapes.visible && !layers.shapes.locked
+                    ? recognizeShape(stroke.points)
+                    : null;
+                if (fit) {
+                    // A separate step, so Undo brings back the stroke as drawn before removing it.
+                    const shape: ShapeObject = {
+                        kind: 'shape',
+                        id: createId(),
+                        ...fit,
+                        color: stroke.color,
+                        width: stroke.width,
+                        ...(snap.measure ? { measure: true } : {}),
+                    };
+                    execute({
+                        type: 'batch',
+                        commands: [eraseObjects([...objects, stroke], [stroke.id]), addObjects(objects, [shape])],
+                    });
+                }
             }
-        } else if (startPoint && [Tool.Rectangle, Tool.Circle, Tool.Triangle, Tool.Square].includes(currentTool)) {
-            saveState();
-            const endPoint = { x: e.nativeEvent.offsetX, y: e.nativeEvent.offsetY };
-            drawFinalShape(currentTool, startPoint, endPoint);
+        } else if (startPoint && SHAPE_TOOLS[tool]) {
+            const shape = createShape(SHAPE_TOOLS[tool], startPoint, point ?? startPoint, shiftKey);
+            setStartPoint(null);
+            execute(addObjects(objects, [shape]));
+        } else if (startPoint && tool === Tool.Graph) {
+            const graph = graphFromDrag(snapPoint(startPoint), snapPoint(point ?? startPoint));
             setStartPoint(null);
+            execute(addObjects(objects, [graph]));
+            setActiveGraphId(graph.id);
         }
     };
 
-    const drawShape = (
-        ctx: CanvasRenderingContext2D,
-        tool: Tool,
-        start: { x: number; y: number },
-        end: { x: number; y: number }
-    ) => {
-        const width = end.x - start.x;
-        const height = end.y - start.y;
-        switch (tool) {
-            case Tool.Rectangle:
-                ctx.rect(start.x, start.y, width, height);
-                break;
-            case Tool.Square: {
-                const size = Math.min(Math.abs(width), Math.abs(height));
-                ctx.rect(start.x, start.y, width < 0 ? -size : size, height < 0 ? -size : size);
-                break;
-            }
-            case Tool.Circle: {
-                const radius = Math.sqrt(width * width + height * height);
-                ctx.arc(start.x, start.y, radius, 0, 2 * Math.PI);
-                break;
-            }
-            case Tool.Triangle:
-                ctx.moveTo(start.x, start.y);
-                ctx.lineTo(end.x, end.y);
-                ctx.lineTo(start.x * 2 - end.x, end.y);
-                ctx.closePath();
-                break;
-            default:
-                break;
-        }
+    /**
+     * Drops whatever stroke, shape, region or drag is in progress, e.g. when a
+     * second finger turns a touch into a pinch or a palm was drawing before the pen landed.
+     */
+    const cancelInput = () => {
+        setIsDrawing(false);
+        setStartPoint(null);
+        setPolygonDraft(null);
+        setGraphPan(null);
+        setDraftRegion(null);
+        setSelectionDrag(null);
+        strokePointsRef.current = [];
+        strokePressuresRef.current = null;
+        erasedIdsRef.current = new Set();
+        if (ctxRef.current) renderBoard(ctxRef.current, visibleObjects(displayedObjects, layers), renderView, renderOptions);
     };
 
-    const drawFinalShape = (tool: Tool, start: { x: number; y: number }, end: { x: number; y: number }) => {
-        if (ctxRef.current) {
-            const ctx = ctxRef.current;
-            ctx.strokeStyle = color;
-            ctx.lineWidth = strokeWidth;
-            ctx.beginPath();
-            drawShape(ctx, tool, start, end);
-            ctx.stroke();
-            ctx.closePath();
-        }
+    const getPointerPos = (e: { clientX: number; clientY: number }): Point => {
+        const rect = canvasRef.current?.getBoundingClientRect();
+        return { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) };
     };
 
-    const getTouchPos = (touchEvent: React.TouchEvent<HTMLCanvasElement>): { x: number; y: number } => {
-        const canvas = canvasRef.current;
-        if (!canvas) return { x: 0, y: 0 };
-        const rect = canvas.getBoundingClientRect();
-        const touch = touchEvent.touches[0];
+    /**
+     * The midpoint (in screen pixels) and spread of the first two touches.
+     */
+    const getPinch = () => {
+        const [a, b] = [...touchesRef.current.values()];
         return {
-            x: touch.clientX - rect.left,
-            y: touch.clientY - rect.top,
+            center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+            distance: Math.max(Math.hypot(a.x - b.x, a.y - b.y), 1),
         };
     };
 
-    const startDrawingTouch = (e: React.TouchEvent<HTMLCanvasElement>) => {
-        e.preventDefault();
-        if (![Tool.Draw, Tool.Erase, Tool.Rectangle, Tool.Circle, Tool.Triangle, Tool.Square].includes(currentTool)) return;
-        saveState();
-        const { x, y } = getTouchPos(e);
-        if (currentTool === Tool.Draw || currentTool === Tool.Erase) {
-            if (ctxRef.current) {
-                const ctx = ctxRef.current;
-                ctx.beginPath();
-                ctx.moveTo(x, y);
-                setIsDrawing(true);
+    /**
+     * Mouse, touch and pen all arrive here. One pointer draws at a time; a
+     * pen takes over from a touch (usually the palm) that started first, and
+     * once a pen has been used, fingers only pan and zoom.
+     */
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const screen = getPointerPos(e);
+        setSelectedTextItemId(null);
+        if (e.pointerType === 'touch') {
+            if (activePointerRef.current?.pointerType === 'pen') return;
+            touchesRef.current.set(e.pointerId, screen);
+            if (touchesRef.current.size >= 2) {
+                if (activePointerRef.current) cancelInput();
+                activePointerRef.current = null;
+                panRef.current = null;
+                pinchRef.current = getPinch();
+                return;
+            }
+        }
+        if (e.pointerType === 'pen') {
+            penUsedRef.current = true;
+            if (activePointerRef.current?.pointerType === 'touch') {
+                cancelInput();
+                activePointerRef.current = null;
             }
+            if (panRef.current?.pointerType === 'touch') panRef.current = null;
+        }
+        if (activePointerRef.current || panRef.current) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        // Middle-button or space drags pan instead of using the tool, as do fingers next to a pen.
+        if (e.button === 1 || spaceHeld || (e.pointerType === 'touch' && penUsedRef.current)) {
+            e.preventDefault();
+            panRef.current = { pointerId: e.pointerId, pointerType: e.pointerType, last: screen };
+            return;
+        }
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+        // The pen's eraser end reports button 5 (buttons bit 32), its barrel button 2 (bit 2),
+        // which may already be held when the tip touches down.
+        const penEraser = e.pointerType === 'pen'
+            && (e.button === 5 || e.button === 2 || (e.buttons & (32 | 2)) !== 0);
+        activePointerRef.current = { pointerId: e.pointerId, pointerType: e.pointerType };
+        beginInput(toBoard(viewport, screen), {
+            shiftKey: e.shiftKey,
+            tool: penEraser ? Tool.Erase : currentTool,
+            pressure: e.pointerType === 'pen' ? e.pressure : undefined,
+        });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (e.isPrimary) setCursor(toBoard(viewport, getPointerPos(e)));
+        if (touchesRef.current.has(e.pointerId)) {
+            touchesRef.current.set(e.pointerId, getPointerPos(e));
+        }
+        const pinch = pinchRef.current;
+        if (pinch) {
+            if (touchesRef.current.size < 2) return;
+            const next = getPinch();
+            setViewport((prev) => zoomAt(
+                panBy(prev, next.center.x - pinch.center.x, next.center.y - pinch.center.y),
+                next.center,
+                next.distance / pinch.distance,
+            ));
+            pinchRef.current = next;
+            return;
+        }
+        const pan = panRef.current;
+        if (pan?.pointerId === e.pointerId) {
+            const screen = getPointerPos(e);
+            setViewport((prev) => panBy(prev, screen.x - pan.last.x, screen.y - pan.last.y));
+            panRef.current = { ...pan, last: screen };
+            return;
+        }
+        if (polygonDraft && e.isPrimary) movePolygonPointer(toBoard(viewport, getPointerPos(e)), e.shiftKey);
+        if (activePointerRef.current?.pointerId !== e.pointerId) return;
+        const isPen = e.pointerType === 'pen';
+        // Browsers batch fast pointer moves into one event; strokes want every sample.
+        const samples = inputToolRef.current === Tool.Draw && isDrawing
+            ? e.nativeEvent.getCoalescedEvents?.() ?? []
+            : [];
+        (samples.length > 0 ? samples : [e.nativeEvent]).forEach((sample) => {
+            continueInput(toBoard(viewport, getPointerPos(sample)), {
+                shiftKey: e.shiftKey,
+                pressure: isPen ? sample.pressure : undefined,
+            });
+        });
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        touchesRef.current.delete(e.pointerId);
+        if (pinchRef.current) {
+            // The remaining finger does nothing until it is lifted too.
+            if (touchesRef.current.size < 2) pinchRef.current = null;
+            return;
+        }
+        if (panRef.current?.pointerId === e.pointerId) {
+            panRef.current = null;
+            return;
+        }
+        if (activePointerRef.current?.pointerId !== e.pointerId) return;
+        activePointerRef.current = null;
+        if (e.type === 'pointercancel') {
+            cancelInput();
         } else {
-            setStartPoint({ x, y });
+            endInput(toBoard(viewport, getPointerPos(e)), {
+                shiftKey: e.shiftKey,
+                pressure: e.pointerType === 'pen' ? e.pressure : undefined,
+            });
         }
     };
 
-    const drawTouch = (e: React.TouchEvent<HTMLCanvasElement>) => {
-        e.preventDefault();
-        if (isDrawing) {
-            const { x, y } = getTouchPos(e);
-            if (ctxRef.current) {
-                const ctx = ctxRef.current;
-                if (currentTool === Tool.Erase) {
-                    ctx.globalCompositeOperation = 'destination-out';
-                    ctx.strokeStyle = 'rgba(0,0,0,1)';
-                } else {
-                    ctx.globalCompositeOperation = 'source-over';
-                    ctx.strokeStyle = color;
-                }
-                ctx.lineWidth = strokeWidth;
-                ctx.lineTo(x, y);
-                ctx.stroke();
+    const contentBounds = () => unionBounds([
+        ...objects.map(getInkBounds),
+        ...textItems.map(getTextBounds),
+        ...cardBounds,
+    ]);
+
+    const zoomToFit = () => {
+        const bounds = contentBounds();
+        setViewport(bounds ? fitBounds(bounds, canvasSize.width, canvasSize.height) : DEFAULT_VIEWPORT);
+    };
+
+    /**
+     * Zooms around the middle of the canvas.
+     */
+    const zoomBy = (factor: number) => {
+        setViewport((prev) => zoomAt(prev, { x: canvasSize.width / 2, y: canvasSize.height / 2 }, factor));
+    };
+
+    /**
+     * Adds the cards for a run's results and records what it assigned.
+     */
+    const showResults = (
+        results: GeneratedResult[],
+        verifications: Verification[],
+        selection: Region | null,
+        run: RunReference,
+        origin: Point,
+    ) => {
+        setVariables((prev) => applyRun(prev, results, run));
+        // Results arrive after an awaited solve, so place them among what is on the board now.
+        const { objects: current, cardSizes: sizes } = latestBoardRef.current;
+        const currentTexts = objectsOfKind(current, 'text');
+        const currentCards = objectsOfKind(current, 'latex').map((card) =>
+            boundsAt(card.position, sizes[card.id] ?? estimateCardSize(card.text)));
+        // Backend boxes are in pixels of the image sent, which starts at `origin` on the board.
+        const inkAnchor = (selection ? inkBoundsInRegion(current, selection) ?? regionBounds(selection) : null)
+            ?? unionBounds([...current.map(getInkBounds), ...currentTexts.map(getTextBounds)])
+            ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+        const shown = results
+            .map((data, index) => ({ data, verification: verifications[index] }))
+            .filter(({ data }) => data.assign ?? true);
+        if (shown.length === 0) return;
+        const obstacles = [
+            ...current.map(getInkBounds),
+            ...currentTexts.map(getTextBounds),
+            ...currentCards,
+        ].filter((bounds): bounds is Bounds => bounds !== null);
+        const placements = placeCards(
+            shown.map(({ data }) => ({
+                anchor: data.bbox
+                    ? {
+                        minX: origin.x + data.bbox.x,
+                        minY: origin.y + data.bbox.y,
+                        maxX: origin.x + data.bbox.x + data.bbox.width,
+                        maxY: origin.y + data.bbox.y + data.bbox.height,
+                    }
+                    : inkAnchor,
+                size: estimateCardSize(resultToTex(data.expr, data.result)),
+            })),
+            obstacles,
+        );
+        const cards = shown.map(({ data, verification }, index) =>
+            createResultCard(data, placements[index].position, verification, placements[index].anchor));
+        execute(addObjects(current, cards));
+        setAnnouncedCards(cards);
+    };
+
+    /**
+     * Adds a finished run to the board's history. Failures here only cost the
+     * history entry, so they are logged rather than shown.
+     */
+    const recordRun = async (run: Omit<RunRecord, 'thumbnail'>) => {
+        try {
+            const thumbnail = await createThumbnailFromDataUrl(run.image);
+            await addRun({ ...run, thumbnail });
+            setRuns(await listRuns(boardId));
+        } catch (error) {
+            console.error('History Error:', error);
+        }
+    };
+
+    /**
+     * Sends the board, or only the part inside `selection`, to the solver.
+     * Passing a recorded run sends that run's image, texts and variables again
+     * to the current provider instead.
+     */
+    const runRoute = async (selection: Region | null = null, replay?: RunRecord) => {
+        if (solveControllerRef.current) return;
+        // Claimed before anything is awaited, so a second Run in the meantime is ignored.
+        const controller = new AbortController();
+        solveControllerRef.current = controller;
+        setIsSolving(true);
+        setSolverError(null);
+        let imageDataURL: string;
+        let imageOrigin: Point;
+        let texts: string[];
+        let sentVariables = dictOfVars;
+        if (replay) {
+            selection = replay.region;
+            imageDataURL = replay.image;
+            imageOrigin = runImageOrigin(replay);
+            texts = replay.texts;
+            sentVariables = replay.variables;
+        } else {
+            // Layers left out of Run are neither drawn nor read out.
+            const sent = runObjects(objects, layers);
+            const sentCards = objectsOfKind(sent, 'latex').filter((card) => card.expr !== undefined && card.result !== undefined);
+            // Inline formulas must be typeset before they can be drawn into the image.
+            await prepareTextMath(objectsOfKind(sent, 'text'));
+            if (controller.signal.aborted) {
+                solveControllerRef.current = null;
+                setIsSolving(false);
+                return;
             }
-        } else if (startPoint && [Tool.Rectangle, Tool.Circle, Tool.Triangle, Tool.Square].includes(currentTool)) {
-            const { x, y } = getTouchPos(e);
-            const canvas = canvasRef.current;
-            if (canvas && ctxRef.current) {
-                const ctx = ctxRef.current;
-                resetCanvas();
-                if (undoStack.length > 0) {
-                    const img = new Image();
-                    img.src = undoStack[undoStack.length - 1];
-                    img.onload = () => {
-                        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-                        ctx.strokeStyle = color;
-                        ctx.lineWidth = strokeWidth;
-                        ctx.beginPath();
-                        drawShape(ctx, currentTool, startPoint, { x, y });
-                        ctx.stroke();
-                    };
-                }
+            if (selection) {
+                imageDataURL = rasterizeRegion(sent, selection);
+                imageOrigin = regionImageOrigin(selection);
+                const area = selection;
+                texts = [
+                    ...textItemsInRegion(sent, selection).map((item) => item.text),
+                    ...sentCards.filter((card) => regionContains(area, card.position)).map(cardText),
+                ];
+            } else {
+                // The board has no edges, so send the area its ink and text cover
+                // rather than whatever happens to be on screen.
+                const content = unionBounds([...sent.map(getInkBounds), ...objectsOfKind(sent, 'text').map(getTextBounds)])
+                    ?? visibleBounds(viewport, canvasSize.width, canvasSize.height);
+                const area: Region = {
+                    shape: 'rectangle',
+                    start: { x: content.minX, y: content.minY },
+                    end: { x: content.maxX, y: content.maxY },
+                };
+                imageDataURL = rasterizeRegion(sent, area);
+                imageOrigin = regionImageOrigin(area);
+                texts = [...objectsOfKind(sent, 'text').map((item) => item.text), ...sentCards.map(cardText)];
             }
         }
-    };
+        lastRunRegionRef.current = selection;
 
-    const stopDrawingTouch = (e: React.TouchEvent<HTMLCanvasElement>) => {
-        e.preventDefault();
-        if (isDrawing) {
-            setIsDrawing(false);
-            if (ctxRef.current) {
-                const ctx = ctxRef.current;
-                ctx.closePath();
-                ctx.globalCompositeOperation = 'source-over';
+        const run = {
+            id: createId(),
+            boardId,
+            startedAt: new Date().toISOString(),
+            providerId,
+            region: selection,
+            image: imageDataURL,
+            imageOrigin,
+            texts,
+            variables: sentVariables,
+        };
+        const startTime = performance.now();
+        try {
+            const resp = await getProvider(providerId).solve(
+                { image: imageDataURL, variables: sentVariables, texts },
+                { signal: controller.signal },
+            );
+            const latencyMs = Math.round(performance.now() - startTime);
+            const verifications = verifyResults(resp.data, numericVariables(sentVariables));
+            showResults(resp.data, verifications, selection, { id: run.id, at: run.startedAt }, imageOrigin);
+            void recordRun({ ...run, latencyMs, response: { results: resp.data, verifications, raw: resp.raw } });
+        } catch (error) {
+            const latencyMs = Math.round(performance.now() - startTime);
+            const solverError = error instanceof SolverError
+                ? error
+                : new SolverError('network', error instanceof Error ? error.message : String(error));
+            if (solverError.kind !== 'cancelled') {
+                console.error('API Error:', solverError);
+                setSolverError(solverError);
+                void recordRun({ ...run, latencyMs, error: { kind: solverError.kind, message: solverError.message } });
             }
-        } else if (startPoint && [Tool.Rectangle, Tool.Circle, Tool.Triangle, Tool.Square].includes(currentTool)) {
-            saveState();
-            const { x, y } = getTouchPos(e);
-            const endPoint = { x, y };
-            drawFinalShape(currentTool, startPoint, endPoint);
-            setStartPoint(null);
+        } finally {
+            solveControllerRef.current = null;
+            setIsSolving(false);
         }
     };
 
-    const runRoute = async () => {
-        const canvas = canvasRef.current;
-        if (canvas) {
-            try {
-                const offscreenCanvas = document.createElement("canvas");
-                offscreenCanvas.width = canvas.width;
-                offscreenCanvas.height = canvas.height;
-                const ctx = offscreenCanvas.getContext("2d");
-                if (ctx) {
-                    ctx.drawImage(canvas, 0, 0);
-                    ctx.textBaseline = "top";
-                    textItems.forEach((item) => {
-                        ctx.font = `${item.fontSize}px sans-serif`;
-                        ctx.fillStyle = "black";
-                        ctx.fillText(item.text, item.position.x, item.position.y);
-                    });
-                    const imageDataURL = offscreenCanvas.toDataURL("image/png");
-                    console.log("Image Data URL:", imageDataURL);
-                    const response = await axios.post(
-                        `${import.meta.env.VITE_API_URL}/magic`,
-                        {
-                            image: imageDataURL,
-                            dict_of_vars: dictOfVars,
-                        },
-                    );
-                    const resp = response.data;
-                    console.log("API Response:", resp);
-                    if (Array.isArray(resp.data)) {
-                        resp.data.forEach((data: GeneratedResult) => {
-                            setDictOfVars((prev) => ({
-                                ...prev,
-                                [data.expr]: data.result,
-                            }));
-                        });
-                    } else {
-                        console.error(
-                            "API Error: Data is not an array",
-                            resp.data,
-                        );
-                    }
-                    const ctx2 = canvas.getContext("2d");
-                    if (ctx2) {
-                        const imageData = ctx2.getImageData(
-                            0,
-                            0,
-                            canvas.width,
-                            canvas.height,
-                        );
-                        let minX = canvas.width,
-                            minY = canvas.height,
-                            maxX = 0,
-                            maxY = 0;
-                        for (let y = 0; y < canvas.height; y++) {
-                            for (let x = 0; x < canvas.width; x++) {
-                                const i = (y * canvas.width + x) * 4;
-                                if (imageData.data[i + 3] > 0) {
-                                    minX = Math.min(minX, x);
-                                    minY = Math.min(minY, y);
-                                    maxX = Math.max(maxX, x);
-                                    maxY = Math.max(maxY, y);
-                                }
-                            }
-                        }
-                        const centerX = (minX + maxX) / 2;
-                        const centerY = (minY + maxY) / 2;
-                        if (Array.isArray(resp.data)) {
-                            resp.data.forEach((data: GeneratedResult, index: number) => {
-                                const assign = data.assign ?? true;
-                                if (assign) {
-                                    const offset = index * 30;
-                                    const newPosition = {
-                                        x: centerX + offset,
-                                        y: centerY + offset,
-                                    };
-                                    setLatexExpressions((prev) => [
-                                        ...prev,
-                                        {
-                                            id: prev.length + 1,
-                                            text: `\\(\\LARGE{\\text{${data.expr}} = \\text{${data.result}}}\\)`,
-                                            position: newPosition,
-                                        },
-                                    ]);
-                                }
-                            });
-                        }
-                    }
-                }
-            } catch (error) {
-                console.error('API Error:', error);
-            }
+    /**
+     * Puts a past run's cards back on the board and re-applies its assignments.
+     */
+    const restoreRun = (run: RunRecord) => {
+        if (!run.response) return;
+        showResults(run.response.results, run.response.verifications, run.region, {
+            id: run.id,
+            at: new Date().toISOString(),
+        }, runImageOrigin(run));
+    };
+
+    const removeRun = async (id: string) => {
+        try {
+            await deleteRun(id);
+            setRuns(await listRuns(boardId));
+        } catch (error) {
+            console.error('History Error:', error);
         }
     };
 
+    const clearHistory = async () => {
+        if (!window.confirm('Delete every run in this board\'s history?')) return;
+        try {
+            await clearRuns(boardId);
+            setRuns([]);
+        } catch (error) {
+            console.error('History Error:', error);
+        }
+    };
+
+    const cancelRun = () => {
+        solveControllerRef.current?.abort();
+    };
+
+    // Track rendered card sizes for placement and leader lines; cards grow once typeset.
+    useEffect(() => {
+        const container = latexContainerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(() => {
+            const sizes: Record<string, Size> = {};
+            container.querySelectorAll<HTMLElement>('[data-card-id]').forEach((element) => {
+                sizes[element.dataset.cardId ?? ''] = { width: element.offsetWidth, height: element.offsetHeight };
+            });
+            setCardSizes(sizes);
+        });
+        container.querySelectorAll('[data-card-id]').forEach((element) => observer.observe(element));
+        return () => observer.disconnect();
+    }, [cardIds]);
+
+    // Let the others in a session know a run is on its way; its cards reach them through the board.
+    useEffect(() => {
+        setSolving(isSolving);
+    }, [isSolving, setSolving]);
+
+    const startCollaboration = () => {
+        setSearchParams((prev) => {
+            const next = new URLSearchParams(prev);
+            next.set('collab', '');
+            return next;
+        });
+    };
+
+    const stopCollaboration = () => {
+        setSearchParams((prev) => {
+            const next = new URLSearchParams(prev);
+            next.delete('collab');
+            return next;
+        });
+    };
+
+    const copyInviteLink = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+        } catch (error) {
+            console.error('Copy Error:', error);
+            window.alert(`Could not copy the link: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
+    // Abandon any request still running when the board is closed.
+    useEffect(() => () => solveControllerRef.current?.abort(), []);
+
+    /**
+     * Rasterizes each typeset result card as it currently appears on the board.
+     * With `vector`, the formula is also taken as SVG, along with an image of
+     * the card without it.
+     */
+    const captureCards = async (vector = false): Promise<CardSnapshot[]> => {
+        const container = latexContainerRef.current;
+        if (!container) return [];
+        const snapshots = await Promise.all(
+            latexExpressions.map(async (expr): Promise<CardSnapshot | null> => {
+                const element = container.querySelector<HTMLElement>(`[data-card-id="${expr.id}"]`);
+                if (!element) return null;
+                // Cards are drawn zoomed on screen; capture them at twice their board size whatever the zoom.
+                const options = { backgroundColor: null, scale: 2 / viewport.zoom, logging: false };
+                const image = await html2canvas(element, options);
+                const snapshot = {
+                    id: expr.id,
+                    position: expr.position,
+                    width: element.offsetWidth,
+                    height: element.offsetHeight,
+                    image,
+                };
+                const formula = element.querySelector<SVGSVGElement>('[data-formula] svg');
+                if (!vector || !formula) return snapshot;
+                // Screen rectangles are zoomed; divide by the zoom to get board units.
+                const cardRect = element.getBoundingClientRect();
+                const formulaRect = formula.getBoundingClientRect();
+                const svg = formula.cloneNode(true) as SVGSVGElement;
+                svg.setAttribute('x', String(expr.position.x + (formulaRect.left - cardRect.left) / viewport.zoom));
+                svg.setAttribute('y', String(expr.position.y + (formulaRect.top - cardRect.top) / viewport.zoom));
+                svg.setAttribute('width', String(formulaRect.width / viewport.zoom));
+                svg.setAttribute('height', String(formulaRect.height / viewport.zoom));
+                svg.setAttribute('color', getComputedStyle(formula).color);
+                const background = await html2canvas(element, {
+                    ...options,
+                    onclone: (_document, clone) => {
+                        clone.querySelector<HTMLElement>('[data-formula]')?.style.setProperty('visibility', 'hidden');
+                    },
+                });
+                return { ...snapshot, vector: { background, formula: new XMLSerializer().serializeToString(svg) } };
+            }),
+        );
+        return snapshots.filter((snapshot): snapshot is CardSnapshot => snapshot !== null);
+    };
+
+    const handleExport = async (format: ExportFormat) => {
+        try {
+            await exportBoard({ objects: visibleObjects(objects, layers), cards: await captureCards(format === 'svg') }, format, boardName);
+        } catch (error) {
+            console.error('Export Error:', error);
+            window.alert(`Export failed: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
+    const copyCard = async (card: LatexExpression, format: 'tex' | 'mathml' | 'svg') => {
+        try {
+            const text = format === 'tex'
+                ? card.text
+                : await typeset(card.text).then((math) => (format === 'mathml' ? math.mathml : math.markup));
+            await navigator.clipboard.writeText(text);
+        } catch (error) {
+            console.error('Copy Error:', error);
+            window.alert(`Could not copy: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
+    /**
+     * Plots the function in a result card on the graph last worked on, or on
+     * a new graph beside the card.
+     */
+    const plotCard = (card: LatexExpression) => {
+        const expr = functionFromResult(card, numericVars);
+        if (!expr || !canDrawWith(Tool.Graph)) return;
+        const target = objectsOfKind(editableObjects, 'graph').find((graph) => graph.id === activeGraphId);
+        if (target) {
+            execute(editObject(target, { functions: [...target.functions, { expr, color: nextGraphColor(target) }] }));
+        } else {
+            const size = cardSizes[card.id] ?? estimateCardSize(card.text);
+            const graph = createGraph(
+                createId(),
+                { x: card.position.x + size.width + CARD_GRAPH_GAP, y: card.position.y },
+                DEFAULT_GRAPH_SIZE.width,
+                DEFAULT_GRAPH_SIZE.height,
+            );
+            execute(addObjects(objects, [{ ...graph, functions: [{ expr, color: nextGraphColor(graph) }] }]));
+            setActiveGraphId(graph.id);
+        }
+        setCurrentTool(Tool.Graph);
+    };
+
+    const saveBoard = () => {
+        const boardDocument = createDocument(boardName, objects, dictOfVars, variables.info, layers);
+        const blob = new Blob([serializeDocument(boardDocument)], { type: DOCUMENT_MIME_TYPE });
+        downloadBlob(blob, toFileName(boardName, DOCUMENT_EXTENSION));
+    };
+
+    const openBoard = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const boardDocument = parseDocument(await file.text());
+            board.load(boardDocument.objects);
+            setVariables(fromValues(boardDocument.variables, boardDocument.variableInfo));
+            setLayers(boardDocument.layers ?? DEFAULT_LAYERS);
+            setBoardName(boardDocument.name);
+        } catch (error) {
+            console.error('Open Error:', error);
+            window.alert(`Could not open ${file.name}: ${error instanceof Error ? error.message : error}`);
+        }
+    };
+
+    const cycleColor = (step: number) => {
+        const index = SWATCHES.indexOf(color);
+        setColor(SWATCHES[(index + step + SWATCHES.length) % SWATCHES.length]);
+    };
+
+    const togglePanel = (panel: 'variables' | 'history' | 'layers') => {
+        setOpenPanel((prev) => (prev === panel ? null : panel));
+    };
+
+    const hasSelection = currentTool === Tool.Select && selection.length > 0;
+    const activeShapeCommand = SHAPE_MENU.find(([tool]) => tool === currentTool)?.[1];
+    const isShapeTool = activeShapeCommand !== undefined;
+    // The Graph tool edits the graph last drawn or dragged; the Select tool a lone selected graph.
+    const editedGraphId = currentTool === Tool.Graph
+        ? activeGraphId
+        : currentTool === Tool.Select && selection.length === 1 ? selection[0] : null;
+    const editedGraph = objectsOfKind(editableObjects, 'graph').find((graph) => graph.id === editedGraphId);
+    const selectedShapes = objectsOfKind(objects, 'shape').filter((shape) => selection.includes(shape.id));
+    const selectedText = objectsOfKind(editableObjects, 'text').find((item) => item.id === selectedTextItemId);
+    const shownTextStyle: TextStyle = selectedText
+        ? {
+            bold: selectedText.bold ?? false,
+            italic: selectedText.italic ?? false,
+            fontFamily: selectedText.fontFamily ?? 'sans-serif',
+            align: selectedText.align ?? 'left',
+        }
+        : textStyle;
+    // The region being dragged out, or else the one Run is limited to.
+    const shownRegion = draftRegion ?? region;
+
+    /**
+     * Sets the style of new text items, and of the selected one.
+     */
+    const changeTextStyle = (patch: Partial<TextStyle>) => {
+        setTextStyle((prev) => ({ ...prev, ...patch }));
+        if (selectedText) execute(editObject(selectedText, patch));
+    };
+
+    /**
+     * Sets the drawing color, which also recolors the selected text item.
+     */
+    const pickColor = (next: string) => {
+        setColor(next);
+        if (selectedText) execute(editObject(selectedText, { color: next }));
+    };
+    const layerCounts = Object.fromEntries(
+        LAYERS.map(({ id }) => [id, objects.filter((object) => layerOf(object) === id).length]),
+    ) as Record<LayerId, number>;
+    // What each command in the registry does on this board; toolbar buttons and shortcuts both go through it.
+    const commandHandlers: CommandHandlers = {
+        'board.undo': { run: undo, enabled: board.canUndo },
+        'board.redo': { run: redo, enabled: board.canRedo },
+        'board.reset': { run: resetBoard },
+        'tool.draw': { run: () => setCurrentTool(Tool.Draw) },
+        'tool.erase': { run: () => setCurrentTool(Tool.Erase) },
+        'tool.select': { run: () => setCurrentTool(Tool.Select) },
+        'tool.text': { run: () => setCurrentTool(Tool.Text) },
+        'tool.rectangle': { run: () => setCurrentTool(Tool.Rectangle) },
+        'tool.circle': { run: () => setCurrentTool(Tool.Circle) },
+        'tool.ellipse': { run: () => setCurrentTool(Tool.Ellipse) },
+        'tool.triangle': { run: () => setCurrentTool(Tool.Triangle) },
+        'tool.line': { run: () => setCurrentTool(Tool.Line) },
+        'tool.arrow': { run: () => setCurrentTool(Tool.Arrow) },
+        'tool.regularPolygon': { run: () => setCurrentTool(Tool.RegularPolygon) },
+        'tool.polygon': { run: () => setCurrentTool(Tool.Polygon) },
+        'polygon.finish': { run: () => finishPolygon(), enabled: polygonDraft !== null },
+        'polygon.cancel': { run: () => setPolygonDraft(null), enabled: polygonDraft !== null },
+        'tool.graph': { run: () => setCurrentTool(Tool.Graph) },
+        'snap.grid': { run: () => changeSnap({ grid: !snap.grid }) },
+        'snap.angle': { run: () => changeSnap({ angle: !snap.angle }) },
+        'snap.measure': { run: () => changeSnap({ measure: !snap.measure }) },
+        'snap.recognize': { run: () => changeSnap({ recognize: !snap.recognize }) },
+        'tool.region': { run: () => setCurrentTool(Tool.Region) },
+        'color.next': { run: () => cycleColor(1) },
+        'color.previous': { run: () => cycleColor(-1) },
+        'selection.delete': { run: deleteSelection, enabled: hasSelection },
+        'selection.clear': { run: () => setSelectedIds([]), enabled: selectedIds.length > 0 },
+        'selection.front': { run: () => reorderSelection('front'), enabled: hasSelection },
+        'selection.forward': { run: () => reorderSelection('forward'), enabled: hasSelection },
+        'selection.backward': { run: () => reorderSelection('backward'), enabled: hasSelection },
+        'selection.back': { run: () => reorderSelection('back'), enabled: hasSelection },
+        'region.toggleShape': {
+            run: () => setRegionShape((prev) => (prev === 'rectangle' ? 'lasso' : 'rectangle')),
+            enabled: currentTool === Tool.Region,
+        },
+        'region.clear': { run: () => setRegion(null), enabled: region !== null },
+        'run.all': { run: () => runRoute(), enabled: !isSolving },
+        'run.selection': { run: () => runRoute(region), enabled: !isSolving && region !== null },
+        'run.cancel': { run: cancelRun, enabled: isSolving },
+        'run.retry': {
+            run: () => runRoute(lastRunRegionRef.current),
+            enabled: !isSolving && Boolean(solverError?.retryable),
+        },
+        'file.save': { run: saveBoard },
+        'file.open': { run: () => openInputRef.current?.click() },
+        'file.exportPng': { run: () => handleExport('png') },
+        'file.exportSvg': { run: () => handleExport('svg') },
+        'file.exportPdf': { run: () => handleExport('pdf') },
+        'view.zoomIn': { run: () => zoomBy(ZOOM_STEP) },
+        'view.zoomOut': { run: () => zoomBy(1 / ZOOM_STEP) },
+        'view.zoomReset': { run: () => zoomBy(1 / viewport.zoom) },
+        'view.zoomToFit': { run: zoomToFit },
+        'view.variables': { run: () => togglePanel('variables') },
+        'view.history': { run: () => togglePanel('history') },
+        'view.layers': { run: () => togglePanel('layers') },
+        'view.highContrast': { run: () => setHighContrast((enabled) => !enabled) },
+        'collab.start': { run: startCollaboration, enabled: !isCollaborating },
+        'collab.copyLink': { run: copyInviteLink, enabled: isCollaborating },
+        'collab.leave': { run: stopCollaboration, enabled: isCollaborating },
+        'app.palette': { run: () => setCommandOverlay('palette') },
+        'app.shortcuts': { run: () => setCommandOverlay('shortcuts') },
+    };
+    const commandHandlersRef = useRef(commandHandlers);
+    commandHandlersRef.current = commandHandlers;
+
+    const runCommand = (id: CommandId) => {
+        const handler = commandHandlers[id];
+        if (handler.enabled !== false) handler.run();
+    };
+
+    /**
+     * A command's name and first shortcut, for button tooltips.
+     */
+    const commandHint = (id: CommandId) =>
+        keymap[id].length > 0 ? `${getCommand(id).title} (${formatChord(keymap[id][0])})` : getCommand(id).title;
+
+    const changeKeymap = useCallback((next: Keymap) => {
+        setKeymap(next);
+        saveKeymap(next);
+    }, []);
+
+    const closeCommandOverlay = useCallback(() => setCommandOverlay(null), []);
+
     useEffect(() => {
+        // The palette and the shortcut sheet handle their own keys.
+        if (commandOverlay) return;
         const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.ctrlKey && e.key === 'z') {
-                e.preventDefault();
-                undo();
-            } else if (e.ctrlKey && e.key === 'y') {
-                e.preventDefault();
-                redo();
-            }
+            const chord = eventToChord(e);
+            // Keys that type text are left to whatever field has the focus.
+            if (!chord || (isPlainChord(chord) && isEditingText(e.target))) return;
+            const id = commandsForChord(keymap, chord).find((command) =>
+                commandHandlersRef.current[command].enabled !== false
+                && !(isEditingText(e.target) && TEXT_FIELD_COMMANDS.has(command)));
+            if (!id) return;
+            e.preventDefault();
+            commandHandlersRef.current[id].run();
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => {
             window.removeEventListener('keydown', handleKeyDown);
         };
-    }, [undo, redo]);
+    }, [keymap, commandOverlay]);
 
     const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-        if (currentTool === Tool.Text) {
-            const rect = canvasRef.current?.getBoundingClientRect();
-            if (rect) {
-                const x = e.clientX - rect.left;
-                const y = e.clientY - rect.top;
-                const newTextItem: TextItem = {
-                    id: nextTextItemId,
-                    position: { x, y },
-                    text: 'Double-click to edit',
-                    fontSize: fontSize,
-                };
-                setTextItems((prev) => [...prev, newTextItem]);
-                setNextTextItemId((prev) => prev + 1);
-            }
+        if (currentTool === Tool.Text && canDrawWith(Tool.Text) && !spaceHeld && e.button === 0) {
+            const newTextItem: TextItem = {
+                kind: 'text',
+                id: createId(),
+                position: toBoard(viewport, getPointerPos(e)),
+                text: 'Double-click to edit',
+                fontSize: fontSize,
+                color,
+                ...textStyle,
+            };
+            execute(addObjects(objects, [newTextItem]));
         }
     };
 
-    const updateTextItemPosition = (id: number, x: number, y: number) => {
-        setTextItems((prevItems) =>
-            prevItems.map((prevItem) =>
-                prevItem.id === id
-                    ? { ...prevItem, position: { x, y } }
-                    : prevItem,
-            ),
-        );
+    const moveObjectTo = (object: TextItem | LatexExpression, x: number, y: number) => {
+        const dx = x - object.position.x;
+        const dy = y - object.position.y;
+        if (dx !== 0 || dy !== 0) {
+            execute(moveObjects([object.id], dx, dy));
+        }
     };
 
-    const updateTextItemContent = (id: number, text: string) => {
-        setTextItems((prevItems) =>
-            prevItems.map((prevItem) =>
-                prevItem.id === id ? { ...prevItem, text } : prevItem,
-            ),
-        );
+    /**
+     * Moves a focused card or text item with the arrow keys, so they can be
+     * placed without a pointer.
+     */
+    const moveWithKeys = (e: React.KeyboardEvent, object: TextItem | LatexExpression) => {
+        const offset = ARROW_OFFSETS[e.key];
+        if (!offset || e.target !== e.currentTarget || !isEditable(object, layers)) return;
+        e.preventDefault();
+        const step = e.shiftKey ? KEYBOARD_MOVE_STEP_LARGE : KEYBOARD_MOVE_STEP;
+        execute(moveObjects([object.id], offset.x * step, offset.y * step));
     };
 
-    const TextItemComponent = React.memo(({ item }: { item: TextItem }) => {
-        const contentRef = useRef<HTMLDivElement>(null);
-        const handleInput = () => {
-            // Handle input if needed
-        };
-        const handleBlur = () => {
-            const newText = contentRef.current?.textContent || '';
-            updateTextItemContent(item.id, newText);
-            setSelectedTextItemId(null);
-        };
+    const updateTextItemContent = (item: TextItem, text: string) => {
+        if (item.text !== text) {
+            execute(editObject(item, { text }));
+        }
+    };
+
+    if (loadState === 'missing') {
         return (
-            <Draggable
-                position={item.position}
-                onStop={(_e, data) => {
-                    updateTextItemPosition(item.id, data.x, data.y);
-                }}
-                bounds="parent"
-                handle={`#drag-handle-${item.id}`}
-            >
-                <div className="absolute z-20" style={{ cursor: 'move' }}>
-                    <div
-                        id={`drag-handle-${item.id}`}
-                        style={{
-                            width: '20px',
-                            height: '20px',
-                            backgroundColor: isDragging ? '#ffd6ff' : '#c8b6ff',
-                            cursor: 'grab',
-                            borderRadius: '4px',
-                            marginBottom: '4px',
-                        }}
-                        onMouseDown={() => setIsDragging(true)}
-                        onMouseUp={() => setIsDragging(false)}
-                    >
-                        &#9776;
-                    </div>
-                    <div
-                        id={`text-item-${item.id}`}
-                        className="text-content"
-                        contentEditable
-                        suppressContentEditableWarning
-                        ref={contentRef}
-                        style={{
-                            fontSize: item.fontSize,
-                            cursor: 'text',
-                            userSelect: 'text',
-                            color: 'black',
-                            padding: '4px',
-                            backgroundColor: 'rgba(255,255,255,0.8)',
-                            borderRadius: '4px',
-                            minWidth: '100px',
-                            minHeight: '30px',
-                        }}
-                        onInput={handleInput}
-                        onFocus={() => setSelectedTextItemId(item.id)}
-                        onBlur={handleBlur}
-                    >
-                        {item.text}
-                    </div>
-                </div>
-            </Draggable>
+            <div className="min-h-screen p-4 bg-gray-900 text-white">
+                <p className="mb-4">This board does not exist in your notebook.</p>
+                <Link to="/" className="underline">Back to the notebook</Link>
+            </div>
         );
-    });
-
-    useEffect(() => {
-        if (latexExpressions.length > 0 && window.MathJax && latexContainerRef.current) {
-            window.MathJax.Hub.Queue(['Typeset', window.MathJax.Hub, latexContainerRef.current]);
-        }
-    }, [latexExpressions]);
+    }
 
     return (
-        <>
-            <div className="grid grid-cols-6 gap-2 p-4 bg-gray-800">
+        <div className="flex flex-col h-screen">
+            <div className="flex items-center gap-4 px-4 py-2 bg-gray-900 text-white">
+                <Link to="/" className="text-sm hover:underline">
+                    &larr; Notebook
+                </Link>
+                <input
+                    aria-label="Board name"
+                    value={boardName}
+                    onChange={(e) => setBoardName(e.target.value)}
+                    className="px-2 py-1 rounded bg-gray-800 text-white"
+                />
+                <button
+                    type="button"
+                    onClick={() => runCommand('view.variables')}
+                    title={commandHint('view.variables')}
+                    aria-pressed={openPanel === 'variables'}
+                    className="ml-auto text-sm hover:underline"
+                >
+                    Variables ({Object.keys(dictOfVars).length})
+                    {Object.values(variables.info).some((info) => info.overwritten) && ' ⚠'}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => runCommand('view.history')}
+                    title={commandHint('view.history')}
+                    aria-pressed={openPanel === 'history'}
+                    className="text-sm hover:underline"
+                >
+                    History ({runs.length})
+                </button>
+                <button
+                    type="button"
+                    onClick={() => runCommand('view.layers')}
+                    title={commandHint('view.layers')}
+                    aria-pressed={openPanel === 'layers'}
+                    className="text-sm hover:underline"
+                >
+                    Layers
+                </button>
+                <button
+                    type="button"
+                    onClick={() => runCommand('app.shortcuts')}
+                    title={commandHint('app.shortcuts')}
+                    className="text-sm hover:underline"
+                >
+                    Shortcuts
+                </button>
+                <button
+                    type="button"
+                    onClick={() => runCommand('view.highContrast')}
+                    title={commandHint('view.highContrast')}
+                    aria-pressed={highContrast}
+                    className="text-sm hover:underline"
+                >
+                    High contrast
+                </button>
+                {isCollaborating ? (
+                    <div className="flex items-center gap-2 text-sm" aria-label="Collaboration">
+                        <span
+                            className={`inline-block w-2 h-2 rounded-full ${collabStatus === 'connected' ? 'bg-green-500' : 'bg-yellow-500'}`}
+                            aria-hidden="true"
+                        />
+                        <span>{COLLAB_STATUS_LABELS[collabStatus]}</span>
+                        <input
+                            aria-label="Your name"
+                            value={userName}
+                            onChange={(e) => {
+                                setUserName(e.target.value);
+                                saveUserName(e.target.value);
+                            }}
+                            className="w-28 px-2 py-1 rounded bg-gray-800 text-white"
+                        />
+                        {peers.map((peer) => (
+                            <span
+                                key={peer.clientId}
+                                className="px-2 py-0.5 rounded-full text-xs text-white"
+                                style={{ backgroundColor: peer.color }}
+                            >
+                                {peer.name}
+                                {peer.solving && ' · solving…'}
+                            </span>
+                        ))}
+                        <button type="button" onClick={() => runCommand('collab.copyLink')} className="hover:underline">
+                            Copy link
+                        </button>
+                        <button type="button" onClick={() => runCommand('collab.leave')} className="hover:underline">
+                            Leave
+                        </button>
+                    </div>
+                ) : (
+                    <button type="button" onClick={() => runCommand('collab.start')} className="text-sm hover:underline">
+                        Collaborate
+                    </button>
+                )}
+                <label htmlFor="solverProvider" className="text-sm">
+                    Solver:
+                </label>
+                <select
+                    id="solverProvider"
+                    value={providerId}
+                    onChange={(e) => {
+                        const id = e.target.value as SolverProviderId;
+                        setProviderId(id);
+                        saveProviderId(id);
+                    }}
+                    title={getProvider(providerId).description}
+                    className="px-2 py-1 rounded bg-gray-800 text-white"
+                >
+                    {SOLVER_PROVIDERS.map((provider) => (
+                        <option key={provider.id} value={provider.id}>
+                            {provider.label}
+                        </option>
+                    ))}
+                </select>
+            </div>
+            <Toolbar label="Tools" className="grid grid-cols-6 gap-2 p-4 bg-gray-800">
                 <Button
-                    onClick={() => setReset(true)}
+                    onClick={() => runCommand('board.reset')}
+                    title={commandHint('board.reset')}
                     className="z-20 bg-red-600 text-white"
                     variant="filled"
                     color="red"
@@ -631,8 +1945,9 @@ export default function Home() {
                     Reset
                 </Button>
                 <Button
-                    onClick={undo}
-                    disabled={undoStack.length === 0}
+                    onClick={() => runCommand('board.undo')}
+                    title={commandHint('board.undo')}
+                    disabled={!board.canUndo}
                     className="z-20 bg-blue-600 text-white"
                     variant="filled"
                     color="blue"
@@ -640,8 +1955,9 @@ export default function Home() {
                     Undo
                 </Button>
                 <Button
-                    onClick={redo}
-                    disabled={redoStack.length === 0}
+                    onClick={() => runCommand('board.redo')}
+                    title={commandHint('board.redo')}
+                    disabled={!board.canRedo}
                     className="z-20 bg-blue-600 text-white"
                     variant="filled"
                     color="blue"
@@ -652,17 +1968,18 @@ export default function Home() {
                     {SWATCHES.map((swatch) => (
                         <ColorSwatch
                             key={swatch}
+                            component="button"
+                            type="button"
+                            aria-label={`Color ${swatch}`}
+                            aria-pressed={color === swatch}
                             color={swatch}
-                            onClick={() => setColor(swatch)}
+                            onClick={() => pickColor(swatch)}
                             style={{ cursor: 'pointer' }}
                         />
                     ))}
                     <Button
-                        onClick={() =>
-                            setCurrentTool((prev) =>
-                                prev === Tool.Erase ? Tool.Draw : Tool.Erase,
-                            )
-                        }
+                        onClick={() => runCommand(currentTool === Tool.Erase ? 'tool.draw' : 'tool.erase')}
+                        title={commandHint(currentTool === Tool.Erase ? 'tool.draw' : 'tool.erase')}
                         variant={currentTool === Tool.Erase ? "filled" : "outline"}
                         color={currentTool === Tool.Erase ? "red" : "gray"}
                         className="ml-2 flex items-center justify-center"
@@ -670,110 +1987,347 @@ export default function Home() {
                         {currentTool === Tool.Erase ? "Eraser" : "Pencil"}
                     </Button>
                     <Button
-                        onClick={() => setCurrentTool(Tool.Text)}
+                        onClick={() => runCommand('tool.select')}
+                        title={commandHint('tool.select')}
+                        variant={currentTool === Tool.Select ? "filled" : "outline"}
+                        aria-pressed={currentTool === Tool.Select}
+                        color={currentTool === Tool.Select ? "blue" : "gray"}
+                        className="ml-2 flex items-center justify-center"
+                    >
+                        Select
+                    </Button>
+                    <Button
+                        onClick={() => runCommand('tool.text')}
+                        title={commandHint('tool.text')}
                         variant={currentTool === Tool.Text ? "filled" : "outline"}
+                        aria-pressed={currentTool === Tool.Text}
                         color={currentTool === Tool.Text ? "blue" : "gray"}
                         className="ml-2 flex items-center justify-center"
                     >
                         Text
                     </Button>
+                    <Menu position="bottom-start">
+                        <Menu.Target>
+                            <Button
+                                variant={isShapeTool ? "filled" : "outline"}
+                                aria-pressed={isShapeTool}
+                                color={isShapeTool ? "green" : "gray"}
+                                className="ml-2 flex items-center justify-center"
+                            >
+                                {activeShapeCommand ? getCommand(activeShapeCommand).title : 'Shapes'} ▾
+                            </Button>
+                        </Menu.Target>
+                        <Menu.Dropdown>
+                            {SHAPE_MENU.map(([tool, id]) => (
+                                <Menu.Item
+                                    key={id}
+                                    onClick={() => runCommand(id)}
+                                    rightSection={keymap[id][0] && formatChord(keymap[id][0])}
+                                    aria-current={currentTool === tool}
+                                >
+                                    {getCommand(id).title}
+                                </Menu.Item>
+                            ))}
+                        </Menu.Dropdown>
+                    </Menu>
                     <Button
-                        onClick={() => setCurrentTool(Tool.Rectangle)}
-                        variant={currentTool === Tool.Rectangle ? "filled" : "outline"}
-                        color={currentTool === Tool.Rectangle ? "green" : "gray"}
+                        onClick={() => runCommand('tool.graph')}
+                        title={commandHint('tool.graph')}
+                        variant={currentTool === Tool.Graph ? "filled" : "outline"}
+                        aria-pressed={currentTool === Tool.Graph}
+                        color={currentTool === Tool.Graph ? "blue" : "gray"}
                         className="ml-2 flex items-center justify-center"
                     >
-                        Rectangle
+                        Graph
                     </Button>
                     <Button
-                        onClick={() => setCurrentTool(Tool.Circle)}
-                        variant={currentTool === Tool.Circle ? "filled" : "outline"}
-                        color={currentTool === Tool.Circle ? "green" : "gray"}
+                        onClick={() => runCommand('tool.region')}
+                        title={commandHint('tool.region')}
+                        variant={currentTool === Tool.Region ? "filled" : "outline"}
+                        aria-pressed={currentTool === Tool.Region}
+                        color={currentTool === Tool.Region ? "blue" : "gray"}
                         className="ml-2 flex items-center justify-center"
                     >
-                        Circle
+                        Select region
                     </Button>
+                </Group>
+                <div className="z-20 flex gap-2">
                     <Button
-                        onClick={() => setCurrentTool(Tool.Triangle)}
-                        variant={currentTool === Tool.Triangle ? "filled" : "outline"}
-                        color={currentTool === Tool.Triangle ? "green" : "gray"}
-                        className="ml-2 flex items-center justify-center"
+                        onClick={() => runCommand('file.save')}
+                        title={commandHint('file.save')}
+                        className="flex-1"
+                        variant="outline"
                     >
-                        Triangle
+                        Save
                     </Button>
-                </Group>
-                <Button
-                    onClick={runRoute}
-                    className="z-20 bg-green-600 text-white"
-                    variant="filled"
-                    color="green"
-                >
-                    Run
-                </Button>
-                {currentTool === Tool.Text && (
-                    <div className="flex items-center ml-4">
-                        <label htmlFor="defaultFontSize" className="mr-2 text-white">
-                            Font Size:
+                    <Button
+                        onClick={() => runCommand('file.open')}
+                        title={commandHint('file.open')}
+                        className="flex-1"
+                        variant="outline"
+                    >
+                        Open
+                    </Button>
+                    <Menu position="bottom-end">
+                        <Menu.Target>
+                            <Button className="flex-1" variant="outline">
+                                Export
+                            </Button>
+                        </Menu.Target>
+                        <Menu.Dropdown>
+                            <Menu.Item onClick={() => runCommand('file.exportPng')}>PNG image</Menu.Item>
+                            <Menu.Item onClick={() => runCommand('file.exportSvg')}>SVG (vector)</Menu.Item>
+                            <Menu.Item onClick={() => runCommand('file.exportPdf')}>PDF document</Menu.Item>
+                        </Menu.Dropdown>
+                    </Menu>
+                    <input
+                        ref={openInputRef}
+                        type="file"
+                        accept={`${DOCUMENT_EXTENSION},application/json`}
+                        onChange={openBoard}
+                        hidden
+                    />
+                </div>
+                {isSolving ? (
+                    <Button
+                        onClick={() => runCommand('run.cancel')}
+                        title={commandHint('run.cancel')}
+                        className="z-20 bg-red-600 text-white"
+                        variant="filled"
+                        color="red"
+                    >
+                        Solving… Cancel
+                    </Button>
+                ) : (
+                    <div className="z-20 flex gap-2">
+                        <Button
+                            onClick={() => runCommand('run.all')}
+                            title={commandHint('run.all')}
+                            className="flex-1 bg-green-600 text-white"
+                            variant="filled"
+                            color="green"
+                        >
+                            Run
+                        </Button>
+                        {region && (
+                            <Button
+                                onClick={() => runCommand('run.selection')}
+                                title={commandHint('run.selection')}
+                                className="flex-1 bg-green-600 text-white"
+                                variant="filled"
+                                color="green"
+                            >
+                                Run selection
+                            </Button>
+                        )}
+                    </div>
+                )}
+                {currentTool === Tool.Region && (
+                    <div className="z-20 flex items-center gap-2">
+                        <Button
+                            size="sm"
+                            onClick={() => runCommand('region.toggleShape')}
+                            title={commandHint('region.toggleShape')}
+                            variant="outline"
+                        >
+                            {regionShape === 'rectangle' ? 'Rectangle' : 'Lasso'}
+                        </Button>
+                        {region && (
+                            <Button size="sm" variant="outline" onClick={() => runCommand('region.clear')}>
+                                Clear selection
+                            </Button>
+                        )}
+                    </div>
+                )}
+                {currentTool === Tool.Select && selection.length > 0 && (
+                    <div className="z-20 flex items-center gap-2">
+                        <Button size="sm" variant="outline" onClick={() => runCommand('selection.front')} title={commandHint('selection.front')}>
+                            Bring to front
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => runCommand('selection.forward')} title={commandHint('selection.forward')}>
+                            Forward
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => runCommand('selection.backward')} title={commandHint('selection.backward')}>
+                            Backward
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => runCommand('selection.back')} title={commandHint('selection.back')}>
+                            Send to back
+                        </Button>
+                        {selectedShapes.length > 0 && (
+                            <Button size="sm" variant="outline" onClick={toggleSelectionMeasurements}>
+                                {selectedShapes.every((shape) => shape.measure) ? 'Hide measurements' : 'Show measurements'}
+                            </Button>
+                        )}
+                        <Button size="sm" variant="filled" color="red" onClick={() => runCommand('selection.delete')} title={commandHint('selection.delete')}>
+                            Delete
+                        </Button>
+                    </div>
+                )}
+                {currentTool === Tool.RegularPolygon && (
+                    <div className="z-20 flex items-center ml-4">
+                        <label htmlFor="polygonSides" className="mr-2 text-white">
+                            Sides:
                         </label>
                         <input
-                            id="defaultFontSize"
+                            id="polygonSides"
                             type="number"
-                            min="8"
-                            max="72"
-                            value={fontSize}
+                            min={MIN_POLYGON_SIDES}
+                            max={MAX_POLYGON_SIDES}
+                            value={polygonSides}
                             onChange={(e) => {
-                                const newFontSize = Number(e.target.value);
-                                setFontSize(newFontSize);
+                                const sides = Math.round(Number(e.target.value));
+                                setPolygonSides(Math.min(Math.max(sides, MIN_POLYGON_SIDES), MAX_POLYGON_SIDES));
                             }}
                             className="w-16 p-1 rounded"
                         />
                     </div>
                 )}
-                {selectedTextItemId !== null && (
-                    <>
-                        <div className="flex items-center ml-4">
-                            <label htmlFor="fontSize" className="mr-2 text-white">
-                                Font Size:
-                            </label>
-                            <input
-                                id="fontSize"
-                                type="number"
-                                min="8"
-                                max="72"
-                                value={
-                                    textItems.find((item) => item.id === selectedTextItemId)
-                                        ?.fontSize || fontSize
-                                }
-                                onChange={(e) => {
-                                    const newFontSize = Number(e.target.value);
-                                    setTextItems((prevItems) =>
-                                        prevItems.map((prevItem) =>
-                                            prevItem.id === selectedTextItemId
-                                                ? { ...prevItem, fontSize: newFontSize }
-                                                : prevItem,
-                                        ),
-                                    );
-                                }}
-                                className="w-16 p-1 rounded"
-                            />
-                        </div>
+                {currentTool === Tool.Polygon && (
+                    <p className="z-20 flex items-center ml-4 text-sm text-white">
+                        Click to place corners. Click the first corner, double-click or press Enter to finish.
+                    </p>
+                )}
+                {!canDrawWith(currentTool) && (
+                    <p className="z-20 flex items-center ml-4 text-sm text-yellow-300" role="status">
+                        {toolLayerNotice(currentTool)}
+                    </p>
+                )}
+                {currentTool === Tool.Graph && !editedGraph && canDrawWith(currentTool) && (
+                    <p className="z-20 flex items-center ml-4 text-sm text-white">
+                        Drag to draw a graph, or click for one of the default size. Drag inside a graph to move its view.
+                    </p>
+                )}
+                {currentTool === Tool.Text && !selectedText && (
+                    <div className="flex items-center ml-4">
+                        <label htmlFor="defaultFontSize" className="mr-2 text-white">
+                            Font Size:
+                        </label>
+                        <FontSizeInput id="defaultFontSize" value={fontSize} onCommit={setFontSize} />
+                    </div>
+                )}
+                {selectedText && (
+                    <div className="flex items-center ml-4">
+                        <label htmlFor="fontSize" className="mr-2 text-white">
+                            Font Size:
+                        </label>
+                        <FontSizeInput
+                            id="fontSize"
+                            value={selectedText.fontSize}
+                            onCommit={(size) => execute(editObject(selectedText, { fontSize: size }))}
+                        />
+                    </div>
+                )}
+                {(currentTool === Tool.Text || selectedText) && (
+                    <div className="flex items-center gap-1 ml-4" role="group" aria-label="Text style">
                         <Button
-                            onClick={() => {
-                                setTextItems((prevItems) =>
-                                    prevItems.filter(
-                                        (item) => item.id !== selectedTextItemId,
-                                    ),
-                                );
-                                setSelectedTextItemId(null);
-                            }}
-                            className="ml-2 bg-red-600 text-white"
+                            size="sm"
+                            variant={shownTextStyle.bold ? "filled" : "outline"}
+                            aria-pressed={shownTextStyle.bold}
+                            onClick={() => changeTextStyle({ bold: !shownTextStyle.bold })}
+                            className="font-bold"
                         >
-                            Delete Text
+                            B
                         </Button>
-                    </>
+                        <Button
+                            size="sm"
+                            variant={shownTextStyle.italic ? "filled" : "outline"}
+                            aria-pressed={shownTextStyle.italic}
+                            onClick={() => changeTextStyle({ italic: !shownTextStyle.italic })}
+                            className="italic"
+                        >
+                            I
+                        </Button>
+                        {TEXT_FONTS.map(({ value, label }) => (
+                            <Button
+                                key={value}
+                                size="sm"
+                                variant={shownTextStyle.fontFamily === value ? "filled" : "outline"}
+                                aria-pressed={shownTextStyle.fontFamily === value}
+                                onClick={() => changeTextStyle({ fontFamily: value })}
+                            >
+                                {label}
+                            </Button>
+                        ))}
+                        {TEXT_ALIGNS.map(({ value, label }) => (
+                            <Button
+                                key={value}
+                                size="sm"
+                                variant={shownTextStyle.align === value ? "filled" : "outline"}
+                                aria-pressed={shownTextStyle.align === value}
+                                onClick={() => changeTextStyle({ align: value })}
+                            >
+                                {label}
+                            </Button>
+                        ))}
+                        <input
+                            type="color"
+                            aria-label="Text color"
+                            title="Text color"
+                            value={toColorInput(selectedText?.color ?? color)}
+                            onChange={(e) => pickColor(e.target.value)}
+                            className="w-8 h-8 ml-1 bg-transparent cursor-pointer"
+                        />
+                    </div>
                 )}
-            </div>
-            <div className="flex items-center p-4 bg-gray-700">
+                {selectedText && (
+                    <Button
+                        onClick={() => {
+                            execute(eraseObjects(objects, [selectedText.id]));
+                            setSelectedTextItemId(null);
+                        }}
+                        className="ml-2 bg-red-600 text-white"
+                    >
+                        Delete Text
+                    </Button>
+                )}
+            </Toolbar>
+            {solverError && (
+                <div className="flex items-center gap-4 px-4 py-2 bg-red-900 text-red-100" role="alert">
+                    <span className="mr-auto">{solverError.message}</span>
+                    {solverError.retryable && (
+                        <Button size="sm" variant="outline" className="text-black" onClick={() => runCommand('run.retry')}>
+                            Try again
+                        </Button>
+                    )}
+                    <Button size="sm" variant="ghost" onClick={() => setSolverError(null)}>
+                        Dismiss
+                    </Button>
+                </div>
+            )}
+            {openPanel === 'variables' && (
+                <VariablesPanel
+                    variables={variables}
+                    onSet={(name, value) => setVariables((prev) => setVariable(prev, name, value))}
+                    onRename={(from, to) => setVariables((prev) => renameVariable(prev, from, to))}
+                    onDelete={(name) => setVariables((prev) => deleteVariable(prev, name))}
+                    onTogglePin={(name) => setVariables((prev) => togglePin(prev, name))}
+                    onRevert={(name) => setVariables((prev) => revertOverwrite(prev, name))}
+                    onDismissOverwrite={(name) => setVariables((prev) => dismissOverwrite(prev, name))}
+                    onClose={() => setOpenPanel(null)}
+                />
+            )}
+            {openPanel === 'layers' && (
+                <LayersPanel layers={layers} counts={layerCounts} onChange={changeLayer} onClose={() => setOpenPanel(null)} />
+            )}
+            {commandOverlay === 'palette' && (
+                <CommandPalette keymap={keymap} handlers={commandHandlers} onClose={closeCommandOverlay} />
+            )}
+            {commandOverlay === 'shortcuts' && (
+                <ShortcutsSheet keymap={keymap} onChange={changeKeymap} onClose={closeCommandOverlay} />
+            )}
+            {openPanel === 'history' && (
+                <HistoryPanel
+                    runs={runs}
+                    isSolving={isSolving}
+                    providerLabel={getProvider(providerId).label}
+                    onRestore={restoreRun}
+                    onRerun={(run) => runRoute(null, run)}
+                    onDelete={removeRun}
+                    onClear={clearHistory}
+                    onClose={() => setOpenPanel(null)}
+                />
+            )}
+            <Toolbar label="Drawing options" className="flex items-center p-4 bg-gray-700">
                 <label
                     htmlFor="strokeWidth"
                     className="mr-4 text-white font-medium"
@@ -791,18 +2345,73 @@ export default function Home() {
                         console.log("Stroke Width Changed To:", newValue);
                         setStrokeWidth(newValue);
                     }}
-                    className="w-full h-2 bg-gray-300 rounded-lg appearance-none cursor-pointer focus:outline-none"
+                    className="w-full h-2 bg-gray-300 rounded-lg appearance-none cursor-pointer"
                 />
                 <span className="ml-4 text-white font-medium">{strokeWidth}</span>
-            </div>
-            <div className="relative w-full h-screen">
+                <label htmlFor="dashStyle" className="ml-8 mr-2 text-white font-medium">
+                    Line:
+                </label>
+                <select
+                    id="dashStyle"
+                    value={dash}
+                    onChange={(e) => setDash(e.target.value as DashStyle)}
+                    className="px-2 py-1 rounded bg-gray-800 text-white"
+                >
+                    {DASH_STYLES.map(({ value, label }) => (
+                        <option key={value} value={value}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+                <span className="ml-8 mr-2 text-white font-medium">Fill:</span>
+                <Group gap={4} className="shrink-0" role="radiogroup" aria-label="Fill">
+                    <button
+                        type="button"
+                        role="radio"
+                        aria-checked={fill === null}
+                        onClick={() => setFill(null)}
+                        className={`px-2 rounded text-sm ${fill === null ? 'bg-white text-black' : 'text-white'}`}
+                    >
+                        None
+                    </button>
+                    {SWATCHES.map((swatch) => (
+                        <ColorSwatch
+                            key={swatch}
+                            component="button"
+                            type="button"
+                            role="radio"
+                            aria-checked={fill === `${swatch}${FILL_ALPHA}`}
+                            aria-label={`Fill ${swatch}`}
+                            color={swatch}
+                            size={18}
+                            onClick={() => setFill(`${swatch}${FILL_ALPHA}`)}
+                            style={{
+                                cursor: 'pointer',
+                                outline: fill === `${swatch}${FILL_ALPHA}` ? '2px solid white' : undefined,
+                                outlineOffset: 1,
+                            }}
+                        />
+                    ))}
+                </Group>
+                {SNAP_OPTIONS.map(({ key, label, command }) => (
+                    <label key={key} className="flex items-center gap-1 ml-6 text-white font-medium shrink-0" title={commandHint(command)}>
+                        <input type="checkbox" checked={snap[key]} onChange={() => runCommand(command)} />
+                        {label}
+                    </label>
+                ))}
+            </Toolbar>
+            <div ref={canvasContainerRef} className="relative flex-1 min-h-0 overflow-hidden">
                 <canvas
                     ref={canvasRef}
                     id="canvas"
+                    role="img"
+                    aria-label={`Drawing board, ${objects.length} ${objects.length === 1 ? 'object' : 'objects'}`}
                     className={`absolute top-0 left-0 w-full h-full z-10`}
                     style={{
                         cursor:
-                            currentTool === Tool.Text
+                            spaceHeld
+                                ? "grab"
+                                : currentTool === Tool.Text
                                 ? "text"
                                 : currentTool === Tool.Erase
                                     ? `url('/eraser-cursor.png') 16 16, auto`
@@ -810,43 +2419,187 @@ export default function Home() {
                         touchAction: "none",
                     }}
                     draggable="false"
-                    onMouseDown={startDrawing}
-                    onMouseMove={draw}
-                    onMouseUp={stopDrawing}
-                    onMouseOut={stopDrawing}
-                    onTouchStart={startDrawingTouch}
-                    onTouchMove={drawTouch}
-                    onTouchEnd={stopDrawingTouch}
-                    onTouchCancel={stopDrawingTouch}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    onPointerLeave={() => setCursor(null)}
                     onClick={handleCanvasClick}
+                    onDoubleClick={() => finishPolygon()}
                 />
-                <div ref={latexContainerRef}>
-                    {latexExpressions.map((expr) => (
-                        <Draggable
-                            key={`latex-${expr.id}`}
-                            position={expr.position}
-                            onStop={(_e, data) => {
-                                setLatexExpressions((prev) =>
-                                    prev.map((item) =>
-                                        item.id === expr.id
-                                            ? { ...item, position: { x: data.x, y: data.y } }
-                                            : item,
-                                    ),
-                                );
-                            }}
-                        >
-                            <div className="absolute p-2 text-white bg-gray-900 bg-opacity-75 rounded shadow-md z-20">
-                                <div className="latex-content">{expr.text}</div>
-                            </div>
-                        </Draggable>
-                    ))}
+                {/* Everything on the board that lives in the DOM, laid out in board coordinates. */}
+                <div
+                    className="absolute top-0 left-0 z-20 origin-top-left"
+                    style={{
+                        transform: `translate(${-viewport.x * viewport.zoom}px, ${-viewport.y * viewport.zoom}px) scale(${viewport.zoom})`,
+                    }}
+                >
+                    <svg
+                        className="absolute top-0 left-0 overflow-visible pointer-events-none"
+                        width={1}
+                        height={1}
+                        style={{ opacity: layers.results.opacity }}
+                        aria-hidden="true"
+                    >
+                        {layers.results.visible && latexExpressions.map((expr) => {
+                            const line = expr.anchor && leaderLine(
+                                expr.anchor,
+                                boundsAt(expr.position, cardSizes[expr.id] ?? estimateCardSize(expr.text)),
+                            );
+                            return line && (
+                                <line
+                                    key={expr.id}
+                                    x1={line[0].x}
+                                    y1={line[0].y}
+                                    x2={line[1].x}
+                                    y2={line[1].y}
+                                    stroke={LEADER_LINE_STYLE.color}
+                                    strokeWidth={LEADER_LINE_STYLE.width}
+                                    strokeDasharray={LEADER_LINE_STYLE.dash.join(' ')}
+                                />
+                            );
+                        })}
+                    </svg>
+                    {currentTool === Tool.Select && (
+                        <SelectionOverlay
+                            bounds={selectionBounds(displayedObjects, selection)}
+                            marquee={selectionDrag?.handle === 'marquee' ? selectionDrag : null}
+                            zoom={viewport.zoom}
+                        />
+                    )}
+                    <PresenceCursors peers={peers} zoom={viewport.zoom} />
+                    {shownRegion && (
+                        <svg className="absolute top-0 left-0 overflow-visible pointer-events-none" width={1} height={1} aria-hidden="true">
+                            <polygon
+                                points={regionPolygon(shownRegion).map((p) => `${p.x},${p.y}`).join(' ')}
+                                fill="rgba(34, 139, 230, 0.08)"
+                                stroke="#228be6"
+                                strokeWidth={1.5}
+                                strokeDasharray="6 4"
+                                vectorEffect="non-scaling-stroke"
+                            />
+                        </svg>
+                    )}
+                    <div ref={latexContainerRef} style={{ opacity: layers.results.opacity }}>
+                        {layers.results.visible && latexExpressions.map((expr) => (
+                            <Draggable
+                                key={`latex-${expr.id}`}
+                                position={expr.position}
+                                onStop={(_e, data) => {
+                                    moveObjectTo(expr, data.x, data.y);
+                                }}
+                                scale={viewport.zoom}
+                                disabled={layers.results.locked}
+                            >
+                                <div
+                                    data-card-id={expr.id}
+                                    role="group"
+                                    aria-label="Result card"
+                                    aria-keyshortcuts="ArrowUp ArrowDown ArrowLeft ArrowRight"
+                                    tabIndex={0}
+                                    onKeyDown={(e) => moveWithKeys(e, expr)}
+                                    className="absolute p-2 text-white bg-gray-900 bg-opacity-75 rounded shadow-md z-20"
+                                >
+                                    <div className="flex items-start gap-2">
+                                        <MathFormula tex={expr.text} className="latex-content text-2xl" />
+                                        <Menu position="bottom-end">
+                                            <Menu.Target>
+                                                <button type="button" className="text-xs text-gray-400 hover:text-white" aria-label="Copy formula">
+                                                    Copy
+                                                </button>
+                                            </Menu.Target>
+                                            <Menu.Dropdown>
+                                                <Menu.Item onClick={() => copyCard(expr, 'tex')}>LaTeX</Menu.Item>
+                                                <Menu.Item onClick={() => copyCard(expr, 'mathml')}>MathML</Menu.Item>
+                                                <Menu.Item onClick={() => copyCard(expr, 'svg')}>SVG</Menu.Item>
+                                            </Menu.Dropdown>
+                                        </Menu>
+                                        {canDrawWith(Tool.Graph) && functionFromResult(expr, numericVars) && (
+                                            <button
+                                                type="button"
+                                                onClick={() => plotCard(expr)}
+                                                className="text-xs text-gray-400 hover:text-white"
+                                                title="Plot this function on a graph"
+                                            >
+                                                Plot
+                                            </button>
+                                        )}
+                                    </div>
+                                    {expr.verification && (
+                                        <div
+                                            className={`mt-1 inline-block px-2 py-0.5 rounded text-xs ${verificationBadge(expr.verification.status).className}`}
+                                            title={expr.verification.note}
+                                        >
+                                            {verificationBadge(expr.verification.status).label}
+                                            {expr.verification.status === 'mismatch' && expr.verification.computed
+                                                && ` (local: ${expr.verification.computed})`}
+                                        </div>
+                                    )}
+                                    {expr.steps && <SolutionSteps steps={expr.steps} />}
+                                </div>
+                            </Draggable>
+                        ))}
+                    </div>
+                    <div ref={textContainerRef} style={{ opacity: layers.text.opacity }}>
+                        {layers.text.visible && textItems.map((item) => (
+                            <TextItemView
+                                key={`text-${item.id}`}
+                                item={item}
+                                zoom={viewport.zoom}
+                                locked={layers.text.locked}
+                                selected={item.id === selectedTextItemId}
+                                onSelect={() => setSelectedTextItemId(item.id)}
+                                onMove={(x, y) => moveObjectTo(item, x, y)}
+                                onKeyDown={(e) => moveWithKeys(e, item)}
+                                onChangeText={(text) => updateTextItemContent(item, text)}
+                            />
+                        ))}
+                    </div>
                 </div>
-                <div ref={textContainerRef} className="relative w-full h-full">
-                    {textItems.map((item) => (
-                        <TextItemComponent key={`text-${item.id}`} item={item} />
-                    ))}
+                <div className="absolute bottom-4 left-4 z-30 flex items-center gap-1 rounded bg-gray-800 p-1 text-white shadow-md">
+                    <Button size="sm" variant="ghost" onClick={() => runCommand('view.zoomOut')} title={commandHint('view.zoomOut')} aria-label="Zoom out">
+                        −
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => runCommand('view.zoomReset')}
+                        title={commandHint('view.zoomReset')}
+                        className="w-16"
+                    >
+                        {Math.round(viewport.zoom * 100)}%
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => runCommand('view.zoomIn')} title={commandHint('view.zoomIn')} aria-label="Zoom in">
+                        +
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => runCommand('view.zoomToFit')} title={commandHint('view.zoomToFit')}>
+                        Fit
+                    </Button>
                 </div>
+                {editedGraph && (
+                    <GraphPanel
+                        graph={editedGraph}
+                        variables={numericVars}
+                        onChange={(patch) => execute(editObject(editedGraph, patch))}
+                        onClose={() => {
+                            setActiveGraphId(null);
+                            setSelectedIds([]);
+                        }}
+                    />
+                )}
+                {canvasSize.width > 0 && (
+                    <Minimap
+                        objects={visibleObjects(objects, layers)}
+                        cards={layers.results.visible ? cardBounds : []}
+                        viewport={viewport}
+                        width={canvasSize.width}
+                        height={canvasSize.height}
+                        onNavigate={(center) =>
+                            setViewport((prev) => centerOn(prev, center, canvasSize.width, canvasSize.height))}
+                    />
+                )}
             </div>
-        </>
+            <ResultAnnouncer cards={announcedCards} />
+        </div>
     )
 }
@@ -0,0 +1,86 @@
+import { Button } from '@/components/ui/button';
+import { LAYERS, MIN_LAYER_OPACITY, type BoardLayers, type LayerId, type LayerSettings } from '@/lib/board/layers';
+
+interface LayersPanelProps {
+    layers: BoardLayers;
+    /** Number of objects on each layer. */
+    counts: Record<LayerId, number>;
+    onChange: (id: LayerId, patch: Partial<LayerSettings>) => void;
+    onClose: () => void;
+}
+
+/**
+ * Side panel with the board's layers, topmost first. Each layer can be
+ * hidden, locked, faded, and left out of what Run sends to the solver.
+ */
+export default function LayersPanel({ layers, counts, onChange, onClose }: LayersPanelProps) {
+    return (
+        <aside
+            className="fixed top-0 right-0 z-30 flex flex-col w-80 h-full bg-gray-900 text-white shadow-xl"
+            aria-label="Layers"
+        >
+            <div className="flex items-center justify-between p-4 bg-gray-800">
+                <h2 className="font-semibold">Layers</h2>
+                <Button size="sm" variant="ghost" onClick={onClose}>
+                    Close
+                </Button>
+            </div>
+            <ul className="flex-1 overflow-y-auto">
+                {[...LAYERS].reverse().map(({ id, label }) => {
+                    const layer = layers[id];
+                    return (
+                        <li key={id} className="p-3 border-b border-gray-700">
+                            <div className="flex items-center gap-2">
+                                <span className={`mr-auto font-medium ${layer.visible ? '' : 'text-gray-500'}`}>
+                                    {label} <span className="text-xs text-gray-400">({counts[id]})</span>
+                                </span>
+                                <button
+                                    type="button"
+                                    onClick={() => onChange(id, { visible: !layer.visible })}
+                                    aria-pressed={!layer.visible}
+                                    className={`text-xs ${layer.visible ? 'hover:text-white text-gray-400' : 'text-yellow-300'}`}
+                                >
+                                    {layer.visible ? 'Hide' : 'Hidden'}
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => onChange(id, { locked: !layer.locked })}
+                                    aria-pressed={layer.locked}
+                                    title="Locked layers cannot be drawn on, erased, selected or edited"
+                                    className={`text-xs ${layer.locked ? 'text-yellow-300' : 'hover:text-white text-gray-400'}`}
+                                >
+                                    {layer.locked ? 'Locked' : 'Lock'}
+                                </button>
+                            </div>
+                            <div className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+                                <label htmlFor={`layer-opacity-${id}`}>Opacity</label>
+                                <input
+                                    id={`layer-opacity-${id}`}
+                                    type="range"
+                                    min={MIN_LAYER_OPACITY * 100}
+                                    max={100}
+                                    value={Math.round(layer.opacity * 100)}
+                                    onChange={(e) => onChange(id, { opacity: Number(e.target.value) / 100 })}
+                                    className="flex-1"
+                                />
+                                <span className="w-8 text-right">{Math.round(layer.opacity * 100)}%</span>
+                            </div>
+                            <label className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+                                <input
+                                    type="checkbox"
+                                    checked={layer.run}
+                                    onChange={() => onChange(id, { run: !layer.run })}
+                                />
+                                Send with Run
+                            </label>
+                        </li>
+                    );
+                })}
+            </ul>
+            <p className="p-4 text-xs text-gray-400 bg-gray-800">
+                Layers stack in this order. Left-out layers are not drawn in the image sent to the solver, and
+                their text is not sent; result cards are only sent when their layer is included.
+            </p>
+        </aside>
+    );
+}
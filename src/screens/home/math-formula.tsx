@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from 'react';
+import { mathmlElement, typeset } from '@/lib/math/typeset';
+
+interface MathFormulaProps {
+    tex: string;
+    className?: string;
+}
+
+/**
+ * Typesets a formula as SVG. The SVG comes from MathJax, not from the TeX
+ * text, and is inserted as DOM nodes; while typesetting, or if the TeX is
+ * rejected, the source is shown as plain text instead. Screen readers get
+ * the formula's MathML in place of the SVG.
+ */
+export default function MathFormula({ tex, className }: MathFormulaProps) {
+    const formulaRef = useRef<HTMLSpanElement>(null);
+    const [state, setState] = useState<'pending' | 'ready' | 'failed'>('pending');
+
+    useEffect(() => {
+        let cancelled = false;
+        setState('pending');
+        typeset(tex)
+            .then((math) => {
+                if (cancelled || !formulaRef.current) return;
+                const svg = math.svg.cloneNode(true) as SVGSVGElement;
+                svg.setAttribute('aria-hidden', 'true');
+                const speech = document.createElement('span');
+                speech.className = 'sr-only';
+                speech.append(mathmlElement(math));
+                formulaRef.current.replaceChildren(svg, speech);
+                setState('ready');
+            })
+            .catch((error) => {
+                if (cancelled) return;
+                console.error('Typeset Error:', error);
+                formulaRef.current?.replaceChildren();
+                setState('failed');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [tex]);
+
+    return (
+        <span className={className}>
+            <span ref={formulaRef} data-formula hidden={state !== 'ready'} />
+            {state !== 'ready' && <span className="font-mono text-base">{tex}</span>}
+        </span>
+    );
+}
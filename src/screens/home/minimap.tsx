@@ -0,0 +1,81 @@
+import React, { useEffect, useRef } from 'react';
+import { getInkBounds, getTextBounds, renderBoard, renderTextItem, unionBounds, type Bounds } from '@/lib/board/render';
+import { objectsOfKind, type BoardObject, type Point } from '@/lib/board/types';
+import { visibleBounds, type Viewport } from '@/lib/board/viewport';
+
+interface MinimapProps {
+    objects: BoardObject[];
+    /** Areas covered by result cards, which are not part of the ink. */
+    cards: Bounds[];
+    viewport: Viewport;
+    /** CSS size of the board canvas. */
+    width: number;
+    height: number;
+    onNavigate: (center: Point) => void;
+}
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
+const MINIMAP_PADDING = 40;
+
+/**
+ * Overview of the whole board with the visible area outlined. Clicking or
+ * dragging on it moves the view there.
+ */
+export default function Minimap({ objects, cards, viewport, width, height, onNavigate }: MinimapProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const visible = visibleBounds(viewport, width, height);
+    const content = unionBounds([
+        visible,
+        ...objects.map(getInkBounds),
+        ...objectsOfKind(objects, 'text').map(getTextBounds),
+        ...cards,
+    ]) ?? visible;
+    const scale = Math.min(
+        MINIMAP_WIDTH / (content.maxX - content.minX + MINIMAP_PADDING * 2),
+        MINIMAP_HEIGHT / (content.maxY - content.minY + MINIMAP_PADDING * 2),
+    );
+    // Center the content in the minimap.
+    const originX = (content.minX + content.maxX) / 2 - MINIMAP_WIDTH / scale / 2;
+    const originY = (content.minY + content.maxY) / 2 - MINIMAP_HEIGHT / scale / 2;
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = MINIMAP_WIDTH * dpr;
+        canvas.height = MINIMAP_HEIGHT * dpr;
+        renderBoard(ctx, objects, { x: originX, y: originY, scale: scale * dpr });
+        objectsOfKind(objects, 'text').forEach((item) => renderTextItem(ctx, item));
+        ctx.fillStyle = 'rgba(33, 37, 41, 0.6)';
+        cards.forEach((card) => ctx.fillRect(card.minX, card.minY, card.maxX - card.minX, card.maxY - card.minY));
+        ctx.strokeStyle = '#228be6';
+        ctx.lineWidth = 2 / scale;
+        ctx.strokeRect(visible.minX, visible.minY, visible.maxX - visible.minX, visible.maxY - visible.minY);
+    });
+
+    const navigate = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onNavigate({
+            x: originX + (e.clientX - rect.left) / scale,
+            y: originY + (e.clientY - rect.top) / scale,
+        });
+    };
+
+    return (
+        <canvas
+            ref={canvasRef}
+            aria-label="Minimap"
+            className="absolute bottom-4 right-4 z-30 rounded border border-gray-400 shadow-md cursor-pointer"
+            style={{ width: MINIMAP_WIDTH, height: MINIMAP_HEIGHT, touchAction: 'none' }}
+            onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                navigate(e);
+            }}
+            onPointerMove={(e) => {
+                if (e.currentTarget.hasPointerCapture(e.pointerId)) navigate(e);
+            }}
+        />
+    );
+}
@@ -0,0 +1,41 @@
+import type { Peer } from '@/lib/collab/useCollaboration';
+
+interface PresenceCursorsProps {
+    peers: Peer[];
+    /** Cursors are placed in board coordinates but keep their size on screen. */
+    zoom: number;
+}
+
+/**
+ * The other participants' pointers, each labelled with their name.
+ */
+export default function PresenceCursors({ peers, zoom }: PresenceCursorsProps) {
+    return (
+        <>
+            {peers.map((peer) => peer.cursor && (
+                <div
+                    key={peer.clientId}
+                    className="absolute pointer-events-none origin-top-left"
+                    style={{
+                        left: peer.cursor.x,
+                        top: peer.cursor.y,
+                        transform: `scale(${1 / zoom})`,
+                        transition: 'left 50ms linear, top 50ms linear',
+                    }}
+                    aria-hidden="true"
+                >
+                    <svg width="16" height="20" viewBox="0 0 16 20">
+                        <path d="M1 1 L1 17 L5.5 12.5 L9 19 L11.5 18 L8 11.5 L14 11.5 Z" fill={peer.color} stroke="white" strokeWidth="1.5" />
+                    </svg>
+                    <span
+                        className="absolute left-4 top-4 whitespace-nowrap rounded px-1.5 py-0.5 text-xs text-white"
+                        style={{ backgroundColor: peer.color }}
+                    >
+                        {peer.name}
+                        {peer.solving && ' · solving…'}
+                    </span>
+                </div>
+            ))}
+        </>
+    );
+}
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+import type { LatexExpression } from '@/lib/board/types';
+import { mathmlElement, typeset } from '@/lib/math/typeset';
+
+interface ResultAnnouncerProps {
+    /** The cards of the latest run, read out whenever a new list is passed. */
+    cards: LatexExpression[];
+}
+
+/**
+ * A polite live region that reads out each solved `expr = result`. Formulas
+ * are given as MathML so screen readers speak them as math; ones that cannot
+ * be typeset are read as the solver's text.
+ */
+export default function ResultAnnouncer({ cards }: ResultAnnouncerProps) {
+    const regionRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all(cards.map((card) => typeset(card.text).then(mathmlElement).catch(() => null))).then((formulas) => {
+            if (cancelled || !regionRef.current) return;
+            regionRef.current.replaceChildren(...cards.map((card, index) => {
+                const line = document.createElement('p');
+                line.append('Result: ', formulas[index] ?? `${card.expr ?? ''} = ${card.result ?? ''}`);
+                if (card.verification?.status === 'mismatch') line.append(' (does not match the local check)');
+                return line;
+            }));
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [cards]);
+
+    return <div ref={regionRef} role="status" aria-live="polite" className="sr-only" />;
+}
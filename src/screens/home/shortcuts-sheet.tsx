@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { COMMANDS, getCommand, type CommandId } from '@/lib/shortcuts/commands';
+import {
+    bindChord,
+    DEFAULT_KEYMAP,
+    eventToChord,
+    findCommand,
+    formatChord,
+    unbindChord,
+    type Keymap,
+} from '@/lib/shortcuts/keymap';
+
+interface ShortcutsSheetProps {
+    keymap: Keymap;
+    onChange: (keymap: Keymap) => void;
+    onClose: () => void;
+}
+
+const GROUPS = [...new Set(COMMANDS.map((command) => command.group))];
+
+/**
+ * Lists every command with its shortcuts, and lets the user add, remove and
+ * reset them.
+ */
+export default function ShortcutsSheet({ keymap, onChange, onClose }: ShortcutsSheetProps) {
+    // The command waiting for a key press to bind, if any.
+    const [recording, setRecording] = useState<CommandId | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            // Keep the board's shortcuts from firing under the sheet.
+            e.stopPropagation();
+            if (!recording) {
+                if (e.key === 'Escape') onClose();
+                return;
+            }
+            // Capture the key before the browser acts on it.
+            e.preventDefault();
+            if (e.key === 'Escape') {
+                setRecording(null);
+                return;
+            }
+            const chord = eventToChord(e);
+            if (!chord) return;
+            const previous = findCommand(keymap, chord);
+            onChange(bindChord(keymap, recording, chord));
+            setNotice(
+                previous && previous !== recording
+                    ? `${formatChord(chord)} was taken from “${getCommand(previous).title}”.`
+                    : null,
+            );
+            setRecording(null);
+        };
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [recording, keymap, onChange, onClose]);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" role="dialog" aria-label="Keyboard shortcuts">
+            <div className="flex flex-col w-[48rem] max-w-full max-h-full m-4 rounded bg-gray-900 text-white shadow-xl">
+                <div className="flex items-center gap-2 p-4 bg-gray-800">
+                    <h2 className="mr-auto font-semibold">Keyboard shortcuts</h2>
+                    <Button size="sm" variant="outline" className="text-black" onClick={() => onChange(DEFAULT_KEYMAP)}>
+                        Reset all
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={onClose}>
+                        Close
+                    </Button>
+                </div>
+                <p className="px-4 pt-2 text-sm text-gray-400" aria-live="polite">
+                    {recording
+                        ? `Press the new shortcut for “${getCommand(recording).title}”, or Escape to cancel.`
+                        : notice ?? 'Single-key shortcuts are ignored while typing in a text field.'}
+                </p>
+                <div className="overflow-y-auto p-4 text-sm columns-2 gap-8">
+                    {GROUPS.map((group) => (
+                        <section key={group} className="mb-4 break-inside-avoid">
+                            <h3 className="mb-1 font-semibold">{group}</h3>
+                            <ul>
+                                {COMMANDS.filter((command) => command.group === group).map((command) => (
+                                    <li key={command.id} className="flex items-center gap-1 py-0.5">
+                                        <span className="mr-auto">{command.title}</span>
+                                        {keymap[command.id].map((chord) => (
+                                            <kbd key={chord} className="flex items-center rounded bg-gray-700 font-mono text-xs">
+                                                <span className="px-1.5">{formatChord(chord)}</span>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => onChange(unbindChord(keymap, command.id, chord))}
+                                                    className="px-1 text-gray-400 hover:text-white"
+                                                    aria-label={`Remove ${formatChord(chord)} from ${command.title}`}
+                                                >
+                                                    ×
+                                                </button>
+                                            </kbd>
+                                        ))}
+                                        <button
+                                            type="button"
+                                            onClick={() => setRecording(command.id)}
+                                            aria-pressed={recording === command.id}
+                                            className="px-1 text-gray-400 hover:text-white"
+                                            aria-label={`Add a shortcut for ${command.title}`}
+                                        >
+                                            {recording === command.id ? '…' : '+'}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
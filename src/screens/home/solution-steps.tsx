@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import type { SolutionStep } from '@/lib/api/solver';
+import MathFormula from '@/screens/home/math-formula';
+
+interface SolutionStepsProps {
+    steps: SolutionStep[];
+}
+
+/**
+ * The working under a result card, collapsed until opened. "Step by step"
+ * hides the steps and reveals them one at a time, for going through a
+ * solution with a class.
+ */
+export default function SolutionSteps({ steps }: SolutionStepsProps) {
+    const [open, setOpen] = useState(false);
+    // How many steps are shown while revealing step by step; null shows them all.
+    const [revealed, setRevealed] = useState<number | null>(null);
+    const shown = revealed === null ? steps : steps.slice(0, revealed);
+
+    return (
+        <div className="mt-2 text-sm">
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                aria-expanded={open}
+                className="text-xs text-gray-400 hover:text-white"
+            >
+                {open ? '▾' : '▸'} {steps.length} {steps.length === 1 ? 'step' : 'steps'}
+            </button>
+            {open && (
+                <>
+                    <ol className="mt-1 space-y-1" aria-live="polite">
+                        {shown.map((step, index) => (
+                            <li key={index} className="flex items-baseline gap-2 pt-1 border-t border-gray-700">
+                                <span className="text-xs text-gray-400">{index + 1}.</span>
+                                <div>
+                                    <MathFormula tex={step.latex} className="latex-content text-base" />
+                                    {step.explanation && <p className="text-xs text-gray-300">{step.explanation}</p>}
+                                </div>
+                            </li>
+                        ))}
+                    </ol>
+                    <div className="flex gap-3 mt-1 text-xs text-gray-400">
+                        {revealed === null ? (
+                            <button type="button" onClick={() => setRevealed(0)} className="hover:text-white">
+                                Step by step
+                            </button>
+                        ) : (
+                            <>
+                                <button
+                                    type="button"
+                                    onClick={() => setRevealed(revealed + 1)}
+                                    disabled={revealed >= steps.length}
+                                    className="hover:text-white disabled:opacity-50"
+                                >
+                                    Reveal next step
+                                </button>
+                                <button type="button" onClick={() => setRevealed(null)} className="hover:text-white">
+                                    Show all
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
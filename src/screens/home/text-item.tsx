@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import Draggable from 'react-draggable';
+import {
+    isTextMathReady,
+    layoutText,
+    prepareTextMath,
+    textColor,
+    textFont,
+    type PlacedRun,
+} from '@/lib/board/text';
+import type { TextItem } from '@/lib/board/types';
+
+interface TextItemViewProps {
+    item: TextItem;
+    zoom: number;
+    locked: boolean;
+    selected: boolean;
+    onSelect: () => void;
+    onMove: (x: number, y: number) => void;
+    onChangeText: (text: string) => void;
+    /** Keys pressed while the item itself has the focus, e.g. arrows to move it. */
+    onKeyDown: (e: KeyboardEvent<HTMLDivElement>) => void;
+}
+
+/**
+ * A typeset inline formula, cloned from MathJax's SVG and placed on the run's baseline.
+ */
+function InlineMathRun({ run }: { run: Extract<PlacedRun, { kind: 'math' }> }) {
+    const groupRef = useRef<SVGGElement>(null);
+
+    useEffect(() => {
+        const svg = run.math.svg.cloneNode(true) as SVGSVGElement;
+        svg.removeAttribute('style');
+        svg.setAttribute('x', String(run.x));
+        svg.setAttribute('y', String(run.baseline + run.depth - run.height));
+        svg.setAttribute('width', String(run.width));
+        svg.setAttribute('height', String(run.height));
+        groupRef.current?.replaceChildren(svg);
+    }, [run.math, run.x, run.baseline, run.width, run.height, run.depth]);
+
+    return <g ref={groupRef} />;
+}
+
+/**
+ * A text item on the board. It is drawn from the same layout as the image
+ * sent with Run, so what the solver reads matches what is shown. Double-click
+ * (or focus it and press Enter) to edit the source, with `$…$` around inline math.
+ */
+export default function TextItemView({ item, zoom, locked, selected, onSelect, onMove, onChangeText, onKeyDown }: TextItemViewProps) {
+    const [editing, setEditing] = useState(false);
+    const [isDragging, setIsDragging] = useState(false);
+    // Bumped once the item's formulas are typeset, to lay it out again.
+    const [, setMathVersion] = useState(0);
+
+    useEffect(() => {
+        if (isTextMathReady(item)) return;
+        let cancelled = false;
+        prepareTextMath([item]).then(() => {
+            if (!cancelled) setMathVersion((version) => version + 1);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [item]);
+
+    const layout = layoutText(item);
+    const color = textColor(item);
+
+    return (
+        <Draggable
+            position={item.position}
+            onStop={(_e, data) => onMove(data.x, data.y)}
+            scale={zoom}
+            handle={`#drag-handle-${item.id}`}
+            disabled={locked}
+        >
+            <div className="absolute z-20" style={{ cursor: 'move' }}>
+                <div
+                    id={`drag-handle-${item.id}`}
+                    style={{
+                        width: '20px',
+                        height: '20px',
+                        backgroundColor: isDragging ? '#ffd6ff' : '#c8b6ff',
+                        cursor: 'grab',
+                        borderRadius: '4px',
+                        marginBottom: '4px',
+                    }}
+                    onMouseDown={() => setIsDragging(true)}
+                    onMouseUp={() => setIsDragging(false)}
+                >
+                    &#9776;
+                </div>
+                <div
+                    id={`text-item-${item.id}`}
+                    className="text-content"
+                    style={{
+                        cursor: locked ? 'default' : 'text',
+                        padding: '4px',
+                        backgroundColor: 'rgba(255,255,255,0.8)',
+                        borderRadius: '4px',
+                        minWidth: '100px',
+                        minHeight: '30px',
+                        outline: selected ? '1px dashed #228be6' : undefined,
+                    }}
+                    role="group"
+                    aria-label="Text item"
+                    aria-keyshortcuts="Enter ArrowUp ArrowDown ArrowLeft ArrowRight"
+                    tabIndex={editing ? -1 : 0}
+                    onClick={onSelect}
+                    onFocus={(e) => {
+                        if (e.target === e.currentTarget) onSelect();
+                    }}
+                    onDoubleClick={() => {
+                        if (!locked) setEditing(true);
+                    }}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && e.target === e.currentTarget && !locked) {
+                            e.preventDefault();
+                            setEditing(true);
+                            return;
+                        }
+                        onKeyDown(e);
+                    }}
+                >
+                    {editing ? (
+                        <textarea
+                            aria-label="Text"
+                            autoFocus
+                            defaultValue={item.text}
+                            rows={item.text.split('\n').length}
+                            onBlur={(e) => {
+                                onChangeText(e.target.value);
+                                setEditing(false);
+                            }}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Escape') e.currentTarget.blur();
+                            }}
+                            className="block bg-transparent resize"
+                            style={{ font: textFont(item), color, textAlign: item.align ?? 'left', minWidth: layout.width }}
+                        />
+                    ) : (
+                        <svg
+                            width={layout.width}
+                            height={layout.height}
+                            overflow="visible"
+                            fill={color}
+                            color={color}
+                            style={{ display: 'block', font: textFont(item), whiteSpace: 'pre' }}
+                            role="img"
+                            aria-label={item.text}
+                        >
+                            {layout.runs.map((run, index) => (run.kind === 'text'
+                                ? <text key={index} x={run.x} y={run.baseline}>{run.text}</text>
+                                : <InlineMathRun key={index} run={run} />))}
+                        </svg>
+                    )}
+                </div>
+            </div>
+        </Draggable>
+    );
+}
@@ -0,0 +1,77 @@
+import { useLayoutEffect, useRef, type FocusEvent, type KeyboardEvent, type ReactNode } from 'react';
+
+interface ToolbarProps {
+    label: string;
+    className?: string;
+    children: ReactNode;
+}
+
+const ITEM_SELECTOR = 'button:not([disabled]), input:not([disabled]):not([hidden]):not([type="hidden"]), select:not([disabled])';
+
+/**
+ * Inputs that use the arrow keys themselves, so the toolbar leaves those keys to them.
+ */
+const usesArrowKeys = (element: HTMLElement) =>
+    element instanceof HTMLSelectElement
+    || (element instanceof HTMLInputElement && !['checkbox', 'radio', 'color'].includes(element.type));
+
+/**
+ * A toolbar with a roving tab index: Tab enters and leaves it in one step,
+ * and the arrow keys, Home and End move between its controls. The control
+ * focused last is the one Tab comes back to.
+ */
+export default function Toolbar({ label, className, children }: ToolbarProps) {
+    const toolbarRef = useRef<HTMLDivElement>(null);
+    const activeRef = useRef(0);
+
+    const items = () => Array.from(toolbarRef.current?.querySelectorAll<HTMLElement>(ITEM_SELECTOR) ?? []);
+
+    const updateTabIndex = () => {
+        const all = items();
+        const active = Math.min(activeRef.current, all.length - 1);
+        all.forEach((item, index) => {
+            item.tabIndex = index === active ? 0 : -1;
+        });
+    };
+
+    // Controls come and go with the tool, so the tab order is fixed up after every render.
+    useLayoutEffect(updateTabIndex);
+
+    const handleFocus = (e: FocusEvent<HTMLDivElement>) => {
+        const index = items().indexOf(e.target);
+        if (index < 0 || index === activeRef.current) return;
+        activeRef.current = index;
+        updateTabIndex();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+        if (!(e.target instanceof HTMLElement) || usesArrowKeys(e.target)) return;
+        const all = items();
+        const current = all.indexOf(e.target);
+        if (current < 0) return;
+        const next = {
+            ArrowRight: (current + 1) % all.length,
+            ArrowDown: (current + 1) % all.length,
+            ArrowLeft: (current - 1 + all.length) % all.length,
+            ArrowUp: (current - 1 + all.length) % all.length,
+            Home: 0,
+            End: all.length - 1,
+        }[e.key];
+        if (next === undefined) return;
+        e.preventDefault();
+        all[next].focus();
+    };
+
+    return (
+        <div
+            ref={toolbarRef}
+            role="toolbar"
+            aria-label={label}
+            className={className}
+            onFocus={handleFocus}
+            onKeyDown={handleKeyDown}
+        >
+            {children}
+        </div>
+    );
+}
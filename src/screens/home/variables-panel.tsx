@@ -0,0 +1,177 @@
+import { Button } from '@/components/ui/button';
+import React, { useState } from 'react';
+import type { VariableInfo, VariableState } from '@/lib/board/variables';
+
+interface VariablesPanelProps {
+    variables: VariableState;
+    onSet: (name: string, value: string) => void;
+    onRename: (from: string, to: string) => void;
+    onDelete: (name: string) => void;
+    onTogglePin: (name: string) => void;
+    onRevert: (name: string) => void;
+    onDismissOverwrite: (name: string) => void;
+    onClose: () => void;
+}
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString();
+
+const describeSource = (info?: VariableInfo) => {
+    if (!info) return '';
+    return info.source === 'run'
+        ? `From run at ${formatTime(info.updatedAt)}`
+        : `Set by hand at ${formatTime(info.updatedAt)}`;
+};
+
+/**
+ * Side panel listing the variables sent with every run, with their provenance.
+ * Values are edited in place and committed on blur or Enter.
+ */
+export default function VariablesPanel({
+    variables,
+    onSet,
+    onRename,
+    onDelete,
+    onTogglePin,
+    onRevert,
+    onDismissOverwrite,
+    onClose,
+}: VariablesPanelProps) {
+    const [newName, setNewName] = useState<string>('');
+    const [newValue, setNewValue] = useState<string>('');
+    const names = Object.keys(variables.values).sort((a, b) => a.localeCompare(b));
+    const newNameTaken = newName in variables.values;
+    const canAdd = newName.trim() !== '' && newValue.trim() !== '';
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canAdd) return;
+        onSet(newName.trim(), newValue.trim());
+        setNewName('');
+        setNewValue('');
+    };
+
+    return (
+        <aside
+            className="fixed top-0 right-0 z-30 flex flex-col w-80 h-full bg-gray-900 text-white shadow-xl"
+            aria-label="Variables"
+        >
+            <div className="flex items-center justify-between p-4 bg-gray-800">
+                <h2 className="font-semibold">Variables</h2>
+                <Button size="sm" variant="ghost" onClick={onClose}>
+                    Close
+                </Button>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+                {names.length === 0 && (
+                    <p className="p-4 text-sm text-gray-400">
+                        No variables yet. Runs that assign values add them here, or add one below.
+                    </p>
+                )}
+                <ul>
+                    {names.map((name) => {
+                        const info = variables.info[name];
+                        return (
+                            <li key={name} className="p-3 border-b border-gray-700">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        aria-label={`Name of ${name}`}
+                                        defaultValue={name}
+                                        onBlur={(e) => {
+                                            const next = e.target.value.trim();
+                                            if (next && next !== name && !(next in variables.values)) {
+                                                onRename(name, next);
+                                            } else {
+                                                e.target.value = name;
+                                            }
+                                        }}
+                                        className="w-20 px-1 rounded bg-gray-800 font-mono"
+                                    />
+                                    <span>=</span>
+                                    <input
+                                        key={variables.values[name]}
+                                        aria-label={`Value of ${name}`}
+                                        defaultValue={variables.values[name]}
+                                        onBlur={(e) => {
+                                            if (e.target.value !== variables.values[name]) {
+                                                onSet(name, e.target.value);
+                                            }
+                                        }}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') e.currentTarget.blur();
+                                        }}
+                                        className="flex-1 min-w-0 px-1 rounded bg-gray-800 font-mono"
+                                    />
+                                </div>
+                                <div className="flex items-center gap-2 mt-1 text-xs text-gray-400">
+                                    <span className="mr-auto">{describeSource(info)}</span>
+                                    <button
+                                        type="button"
+                                        onClick={() => onTogglePin(name)}
+                                        aria-pressed={!!info?.pinned}
+                                        title="Pinned variables keep their value when a run assigns them"
+                                        className={info?.pinned ? 'text-yellow-300' : 'hover:text-white'}
+                                    >
+                                        {info?.pinned ? 'Pinned' : 'Pin'}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onDelete(name)}
+                                        className="hover:text-red-400"
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                                {info?.overwritten && (
+                                    <div className="mt-2 p-2 rounded bg-yellow-900 text-yellow-100 text-xs" role="status">
+                                        {info.pinned
+                                            ? `A run at ${formatTime(info.overwritten.at)} tried to set this to ${info.overwritten.next}; the pinned value was kept.`
+                                            : `Overwritten by a run at ${formatTime(info.overwritten.at)} (was ${info.overwritten.previous}).`}
+                                        <div className="flex gap-3 mt-1">
+                                            {!info.pinned && (
+                                                <button type="button" className="underline" onClick={() => onRevert(name)}>
+                                                    Restore {info.overwritten.previous}
+                                                </button>
+                                            )}
+                                            <button type="button" className="underline" onClick={() => onDismissOverwrite(name)}>
+                                                Dismiss
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+            <form onSubmit={handleAdd} className="flex flex-col gap-2 p-4 bg-gray-800">
+                <div className="flex items-center gap-2">
+                    <input
+                        aria-label="New variable name"
+                        placeholder="name"
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        className="w-20 px-1 rounded bg-gray-900 font-mono"
+                    />
+                    <span>=</span>
+                    <input
+                        aria-label="New variable value"
+                        placeholder="value"
+                        value={newValue}
+                        onChange={(e) => setNewValue(e.target.value)}
+                        className="flex-1 min-w-0 px-1 rounded bg-gray-900 font-mono"
+                    />
+                </div>
+                {newName.trim() !== '' && !VARIABLE_NAME.test(newName.trim()) && (
+                    <p className="text-xs text-yellow-300">
+                        The solver may not recognize this name; variables are usually single identifiers.
+                    </p>
+                )}
+                <Button type="submit" size="sm" variant="filled" color="blue" disabled={!canAdd}>
+                    {newNameTaken ? 'Update variable' : 'Add variable'}
+                </Button>
+            </form>
+        </aside>
+    );
+}
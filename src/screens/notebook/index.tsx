@@ -0,0 +1,174 @@
+import { Button } from '@/components/ui/button';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { DOCUMENT_EXTENSION, parseDocument } from '@/lib/board/document';
+import {
+    createBoard,
+    deleteBoard,
+    duplicateBoard,
+    listBoards,
+    renameBoard,
+    type BoardSummary,
+} from '@/lib/storage/notebook';
+
+export default function Notebook() {
+    const navigate = useNavigate();
+    const [boards, setBoards] = useState<BoardSummary[] | null>(null);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState<string>('');
+    const [error, setError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = async () => {
+        try {
+            setBoards(await listBoards());
+        } catch (e) {
+            console.error('Notebook Error:', e);
+            setError('Could not read the notebook from this browser\'s storage.');
+            setBoards([]);
+        }
+    };
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const handleCreate = async () => {
+        try {
+            const board = await createBoard(`Board ${(boards?.length ?? 0) + 1}`);
+            navigate(`/board/${board.id}`);
+        } catch (e) {
+            console.error('Notebook Error:', e);
+            setError('Could not create a board in this browser\'s storage.');
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const boardDocument = parseDocument(await file.text());
+            const board = await createBoard(boardDocument.name, boardDocument);
+            navigate(`/board/${board.id}`);
+        } catch (e) {
+            console.error('Open Error:', e);
+            setError(`Could not open ${file.name}: ${e instanceof Error ? e.message : e}`);
+        }
+    };
+
+    const startRename = (board: BoardSummary) => {
+        setRenamingId(board.id);
+        setDraftName(board.name);
+    };
+
+    const commitRename = async () => {
+        try {
+            if (renamingId && draftName.trim()) {
+                await renameBoard(renamingId, draftName.trim());
+            }
+        } catch (e) {
+            console.error('Notebook Error:', e);
+            setError('Could not rename the board.');
+        }
+        setRenamingId(null);
+        refresh();
+    };
+
+    const handleDuplicate = async (id: string) => {
+        try {
+            await duplicateBoard(id);
+        } catch (e) {
+            console.error('Notebook Error:', e);
+            setError('Could not duplicate the board.');
+        }
+        refresh();
+    };
+
+    const handleDelete = async (board: BoardSummary) => {
+        if (!window.confirm(`Delete "${board.name}"? This cannot be undone.`)) return;
+        try {
+            await deleteBoard(board.id);
+        } catch (e) {
+            console.error('Notebook Error:', e);
+            setError(`Could not delete "${board.name}".`);
+        }
+        refresh();
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-900 text-white">
+            <div className="flex items-center gap-2 p-4 bg-gray-800">
+                <h1 className="mr-auto text-xl font-semibold">Notebook</h1>
+                <Button onClick={handleCreate} variant="filled" color="green">
+                    New board
+                </Button>
+                <Button onClick={() => importInputRef.current?.click()} variant="outline" className="text-black">
+                    Open file
+                </Button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept={`${DOCUMENT_EXTENSION},application/json`}
+                    onChange={handleImport}
+                    hidden
+                />
+            </div>
+            {error && (
+                <div className="m-4 p-3 rounded bg-red-900 text-red-100" role="alert">
+                    {error}
+                </div>
+            )}
+            {boards === null ? (
+                <p className="p-4 text-gray-400">Loading…</p>
+            ) : boards.length === 0 ? (
+                <p className="p-4 text-gray-400">No boards yet. Create one to start solving.</p>
+            ) : (
+                <ul className="grid grid-cols-1 gap-4 p-4 sm:grid-cols-2 lg:grid-cols-4">
+                    {boards.map((board) => (
+                        <li key={board.id} className="flex flex-col rounded bg-gray-800 shadow-md overflow-hidden">
+                            <Link to={`/board/${board.id}`} className="block h-36 bg-white">
+                                {board.thumbnail && (
+                                    <img src={board.thumbnail} alt="" className="w-full h-full object-contain" />
+                                )}
+                            </Link>
+                            <div className="p-3">
+                                {renamingId === board.id ? (
+                                    <input
+                                        autoFocus
+                                        value={draftName}
+                                        onChange={(e) => setDraftName(e.target.value)}
+                                        onBlur={commitRename}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitRename();
+                                            if (e.key === 'Escape') setRenamingId(null);
+                                        }}
+                                        className="w-full p-1 rounded text-black"
+                                    />
+                                ) : (
+                                    <Link to={`/board/${board.id}`} className="block font-medium truncate hover:underline">
+                                        {board.name}
+                                    </Link>
+                                )}
+                                <p className="text-xs text-gray-400">
+                                    Edited {new Date(board.updatedAt).toLocaleString()}
+                                </p>
+                                <div className="flex gap-2 mt-2">
+                                    <Button size="sm" variant="outline" className="text-black" onClick={() => startRename(board)}>
+                                        Rename
+                                    </Button>
+                                    <Button size="sm" variant="outline" className="text-black" onClick={() => handleDuplicate(board.id)}>
+                                        Duplicate
+                                    </Button>
+                                    <Button size="sm" variant="filled" color="red" onClick={() => handleDelete(board)}>
+                                        Delete
+                                    </Button>
+                                </div>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -1 +1,34 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    readonly VITE_API_URL: string;
+    readonly VITE_MOCK_API_URL?: string;
+    readonly VITE_MOCK_SOLVER_QUERY?: string;
+    readonly VITE_SOLVER_TIMEOUT_MS?: string;
+    readonly VITE_SOLVER_RETRIES?: string;
+    readonly VITE_SOLVER_RETRY_DELAY_MS?: string;
+    readonly VITE_COLLAB_URL?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}
+
+/** The MathJax 3 bundle has no exports; it installs itself on `window.MathJax`. */
+declare module 'mathjax/es5/tex-svg-full.js';
+
+/** lazy-brush ships typings, but its package `exports` do not point to them. */
+declare module 'lazy-brush' {
+    interface Point {
+        x: number;
+        y: number;
+    }
+
+    export class LazyBrush {
+        constructor(options?: { radius?: number; enabled?: boolean; initialPoint?: Point });
+        setRadius(radius: number): void;
+        update(point: Point, options?: { both?: boolean; friction?: number }): boolean;
+        brushHasMoved(): boolean;
+        getBrushCoordinates(): Point;
+    }
+}